@@ -0,0 +1,558 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import * as fs from 'fs';
+import { createProcessLauncher, getHostPlatform } from './utils/hostPlatform';
+import { JobCancelledError, JobContext, JobProgressDetail, JobRunner } from './utils/jobRunner';
+import { BuildDiagnostic } from './utils/buildOutputParser';
+import { discoverTargets, getDefaultTarget } from './utils/projectTargets';
+import { discoverEngines, matchesEngineAssociation, readEngineAssociation } from './utils/engineDiscovery';
+import { validateTargetPlatform } from './utils/targetPlatforms';
+import { BuildRequest, createBuildRequest, validateBuildRequest } from './core/buildRequest';
+import { BuildEventSink, build, cleanSolution, generateClangDatabase, generateSolution, regenerateSolution } from './core/buildCore';
+import { getCleanScopes, selectCleanScopes } from './core/cleanScopes';
+import { PackageProfile, createDefaultPackageProfile, getPackageSettings, packageProject } from './core/packageCore';
+import { TeamConfig, findTeamConfigFile, readTeamConfig, resolveTeamConfig } from './core/teamConfig';
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_CANCELLED = 130;
+
+const COMMANDS = ['build', 'clean', 'generate', 'regenerate', 'clang-database', 'package'] as const;
+type CliCommand = typeof COMMANDS[number];
+
+const COMMAND_LABELS: Record<CliCommand, string> = {
+    'build': '编译',
+    'clean': '清理解决方案',
+    'generate': '生成解决方案',
+    'regenerate': '重新生成解决方案',
+    'clang-database': '生成 compile_commands.json',
+    'package': '打包项目'
+};
+
+const USAGE = `用法: tare-ue <命令> [选项]
+
+命令:
+  build             编译目标
+  clean             删除 Intermediate / Binaries / Saved/StagedBuilds 等中间文件
+  generate          生成项目文件
+  regenerate        清理、生成项目文件并编译
+  clang-database    生成 compile_commands.json
+  package           使用 BuildCookRun 打包项目
+
+选项:
+  --project <路径>               .uproject 文件，默认使用团队配置或当前目录中的项目
+  --engine <目录>                引擎根目录，默认依次使用 UE_ENGINE_ROOT、团队配置和 EngineAssociation
+  --target <名称>                编译目标，默认使用团队配置或 <项目名>Editor
+  --config <配置>                Debug / DebugGame / Development / Shipping / Test，默认 Development
+  --platform <平台>              目标平台，默认主机平台
+  --profile <名称>               package 时使用团队配置中的打包配置方案
+  --vscode                       generate / regenerate 时同时生成 VS Code 项目
+  --compile-commands-dir <目录>  compile_commands.json 输出目录，相对路径基于项目目录
+  --output-dir <目录>            package 输出目录
+  --no-pak                       package 时不使用 pak
+  --iostore                      package 时使用 IoStore
+  --scope <范围,...>             clean 时删除的范围: project（默认）、plugins、plugin:<插件名>、ddc、logs、shaders
+  --dry-run                      clean 时只列出将删除的目录和大小
+  --json                         以 JSON Lines 输出事件和结果
+  -h, --help                     显示帮助
+  -- <参数...>                   传递给 BuildCookRun 的额外参数
+
+当前目录或项目目录中的 .uebuilder.json / .uebuilder.jsonc 提供默认值，命令行选项优先。
+
+退出代码: 0 成功, 1 失败, 2 参数错误, 130 已取消`;
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+interface CliOptions {
+    command?: CliCommand;
+    project?: string;
+    engine?: string;
+    target?: string;
+    config?: string;
+    platform?: string;
+    profile?: string;
+    vscode: boolean;
+    compileCommandsDir?: string;
+    outputDir?: string;
+    pak?: boolean;
+    iostore?: boolean;
+    scopes?: string[];
+    dryRun: boolean;
+    json: boolean;
+    help: boolean;
+    extraArgs: string[];
+}
+
+type CliStatus = 'succeeded' | 'failed' | 'cancelled';
+
+interface CliResult {
+    command: CliCommand;
+    status: CliStatus;
+    exitCode: number;
+    duration: number;
+    errors: number;
+    warnings: number;
+    error?: string;
+    compileCommandsPath?: string;
+    outputDir?: string;
+}
+
+interface CliReporter extends BuildEventSink {
+    finish(result: CliResult): void;
+}
+
+type ValueOption = 'project' | 'engine' | 'target' | 'config' | 'platform' | 'profile' | 'compileCommandsDir' | 'outputDir' | 'scopes';
+
+const VALUE_OPTIONS: Record<string, ValueOption> = {
+    '--project': 'project',
+    '--engine': 'engine',
+    '--target': 'target',
+    '--config': 'config',
+    '--platform': 'platform',
+    '--profile': 'profile',
+    '--compile-commands-dir': 'compileCommandsDir',
+    '--output-dir': 'outputDir',
+    '--scope': 'scopes'
+};
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        vscode: false,
+        dryRun: false,
+        json: false,
+        help: false,
+        extraArgs: []
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--') {
+            options.extraArgs = argv.slice(i + 1);
+            break;
+        }
+
+        const [name, inlineValue] = arg.startsWith('--') && arg.includes('=')
+            ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+            : [arg, undefined];
+
+        if (name in VALUE_OPTIONS) {
+            const value = inlineValue ?? argv[++i];
+            if (value === undefined || value === '') {
+                throw new UsageError(`选项 ${name} 缺少参数`);
+            }
+            setValueOption(options, VALUE_OPTIONS[name], value);
+            continue;
+        }
+
+        switch (name) {
+            case '--vscode':
+                options.vscode = true;
+                break;
+            case '--no-pak':
+                options.pak = false;
+                break;
+            case '--iostore':
+                options.iostore = true;
+                break;
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (name.startsWith('-')) {
+                    throw new UsageError(`未知选项: ${name}`);
+                }
+                if (options.command) {
+                    throw new UsageError(`多余的参数: ${name}`);
+                }
+                if (!(COMMANDS as readonly string[]).includes(name)) {
+                    throw new UsageError(`未知命令: ${name}`);
+                }
+                options.command = name as CliCommand;
+        }
+    }
+
+    return options;
+}
+
+// --scope 可以重复指定或用逗号分隔多个范围
+function setValueOption(options: CliOptions, option: ValueOption, value: string) {
+    if (option === 'scopes') {
+        options.scopes = [...(options.scopes || []), ...value.split(',').map(scope => scope.trim()).filter(Boolean)];
+    } else {
+        options[option] = value;
+    }
+}
+
+// 在当前目录和项目目录中查找团队配置，命令行指定的引擎和项目用于计算变量
+function loadTeamConfig(options: CliOptions): TeamConfig {
+    const explicitEngine = options.engine || process.env.UE_ENGINE_ROOT;
+    const explicitProject = options.project ? path.resolve(options.project) : undefined;
+    const dirs = [process.cwd(), ...(explicitProject ? [path.dirname(explicitProject)] : [])];
+
+    for (const dir of dirs) {
+        const file = findTeamConfigFile(dir);
+        if (!file) {
+            continue;
+        }
+        try {
+            return resolveTeamConfig(readTeamConfig(file), {
+                workspaceFolder: dir,
+                uePath: explicitEngine ? getHostPlatform().getEditorPath(path.resolve(explicitEngine)) : undefined,
+                projectPath: explicitProject,
+                onUnresolved: (field, variables) => process.stderr.write(`tare-ue: 警告: 团队配置中的变量未定义，已忽略 ${field}: ${variables.join(', ')}\n`)
+            });
+        } catch (error: any) {
+            throw new UsageError(error.message || String(error));
+        }
+    }
+    return {};
+}
+
+function findProject(options: CliOptions, team: TeamConfig): string {
+    const configured = options.project ? path.resolve(options.project) : team.projectPath;
+    if (configured) {
+        if (!fs.existsSync(configured)) {
+            throw new UsageError(`UE 项目路径不存在: ${configured}`);
+        }
+        return configured;
+    }
+
+    const projects = fs.readdirSync(process.cwd()).filter(name => name.endsWith('.uproject'));
+    if (projects.length !== 1) {
+        throw new UsageError(projects.length === 0
+            ? '当前目录中没有 .uproject 文件，请使用 --project 指定'
+            : `当前目录中有多个 .uproject 文件，请使用 --project 指定: ${projects.join(', ')}`);
+    }
+    return path.resolve(projects[0]);
+}
+
+async function findEngineRoot(options: CliOptions, team: TeamConfig, projectPath: string): Promise<string> {
+    const explicit = options.engine || process.env.UE_ENGINE_ROOT;
+    const configured = explicit ? path.resolve(explicit) : team.uePath ? getHostPlatform().getEngineRoot(team.uePath) : undefined;
+    if (configured) {
+        if (!fs.existsSync(path.join(configured, 'Engine'))) {
+            throw new UsageError(`不是有效的引擎目录: ${configured}`);
+        }
+        return configured;
+    }
+
+    const association = readEngineAssociation(projectPath);
+    const engines = await discoverEngines([path.dirname(projectPath)]);
+    const engine = engines.find(candidate => matchesEngineAssociation(association, candidate));
+    if (!engine) {
+        throw new UsageError(`未找到与项目关联的引擎 (${association || '未指定'})，请使用 --engine 指定`);
+    }
+    return engine.root;
+}
+
+async function createRequest(options: CliOptions, team: TeamConfig): Promise<BuildRequest> {
+    const projectPath = findProject(options, team);
+    const projectDir = path.dirname(projectPath);
+    const projectName = path.basename(projectPath, '.uproject');
+    const engineRoot = await findEngineRoot(options, team, projectPath);
+
+    const targets = await discoverTargets(projectDir);
+    const targetName = options.target || team.buildTarget || getDefaultTarget(projectName).name;
+    const target = targets.find(candidate => candidate.name.toLowerCase() === targetName.toLowerCase());
+    if (!target && (options.target || team.buildTarget)) {
+        const available = targets.map(candidate => candidate.name).join(', ') || '无';
+        throw new UsageError(`未找到编译目标 ${targetName}，可用目标: ${available}`);
+    }
+
+    const platform = options.platform || team.platform || getHostPlatform().name;
+    return createBuildRequest({
+        uePath: getHostPlatform().getEditorPath(engineRoot),
+        projectPath,
+        buildConfiguration: options.config || team.buildConfiguration || 'Development',
+        buildTarget: targetName,
+        platform
+    }, target || getDefaultTarget(projectName), platform, team.hooks);
+}
+
+// 命令行选项覆盖团队配置中的打包配置方案
+function createPackageProfile(options: CliOptions, team: TeamConfig): PackageProfile {
+    const base = options.profile
+        ? (team.packageProfiles || []).find(profile => profile.name === options.profile)
+        : undefined;
+    if (options.profile && !base) {
+        const available = (team.packageProfiles || []).map(profile => profile.name).join(', ') || '无';
+        throw new UsageError(`未找到打包配置方案 ${options.profile}，可用方案: ${available}`);
+    }
+
+    const profile = base || createDefaultPackageProfile();
+    return {
+        ...profile,
+        platform: options.platform || profile.platform,
+        configuration: options.config || profile.configuration,
+        outputDir: options.outputDir ? path.resolve(options.outputDir) : profile.outputDir,
+        pak: options.pak ?? profile.pak,
+        iostore: options.iostore ?? profile.iostore,
+        extraArgs: [...(profile.extraArgs || []), ...options.extraArgs]
+    };
+}
+
+// 平台和配置错误属于参数错误，在开始任务前检查
+function validateRequest(command: CliCommand, request: BuildRequest, profile: PackageProfile) {
+    let validation: { valid: boolean; error?: string } = { valid: true };
+    if (command === 'build' || command === 'regenerate') {
+        validation = validateBuildRequest(request);
+    } else if (command === 'package') {
+        validation = validateTargetPlatform(getPackageSettings(request, profile).platform, getHostPlatform().name, request.engineRoot);
+    }
+    if (!validation.valid) {
+        throw new UsageError(validation.error || '配置验证失败');
+    }
+}
+
+async function validateCleanScopes(request: BuildRequest, scopes: string[]) {
+    try {
+        selectCleanScopes(await getCleanScopes(request.projectDir), scopes);
+    } catch (error: any) {
+        throw new UsageError(error.message || String(error));
+    }
+}
+
+async function runCommand(command: CliCommand, options: CliOptions, context: JobContext, request: BuildRequest, profile: PackageProfile, sink: BuildEventSink): Promise<Partial<CliResult>> {
+    const compileCommandsDir = options.compileCommandsDir !== undefined
+        ? path.resolve(request.projectDir, options.compileCommandsDir)
+        : undefined;
+
+    switch (command) {
+        case 'build':
+            await build(context, request, sink);
+            return {};
+        case 'clean':
+            await cleanSolution(context, request, sink, { scopes: options.scopes, dryRun: options.dryRun });
+            return {};
+        case 'generate':
+            return generateSolution(context, request, sink, { vscodeProject: options.vscode, compileCommandsDir });
+        case 'regenerate':
+            return regenerateSolution(context, request, sink, { vscodeProject: options.vscode, compileCommandsDir });
+        case 'clang-database':
+            return { compileCommandsPath: await generateClangDatabase(context, request, sink, compileCommandsDir || request.projectDir, [10, 100]) };
+        case 'package':
+            await packageProject(context, request, profile, sink);
+            return { outputDir: getPackageSettings(request, profile).outputDir };
+    }
+}
+
+// 按行输出日志，避免 JSON 事件在多字节字符或行中间被截断
+class LineBuffer {
+    private _pending: string = '';
+
+    constructor(private readonly _onLine: (line: string) => void) {
+    }
+
+    public feed(text: string) {
+        const lines = (this._pending + text).split(/\r?\n/);
+        this._pending = lines.pop() || '';
+        lines.forEach(line => this._onLine(line));
+    }
+
+    public flush() {
+        if (this._pending) {
+            this._onLine(this._pending);
+            this._pending = '';
+        }
+    }
+}
+
+class TextReporter implements CliReporter {
+    private _lastMessage?: string;
+
+    public progress(progress: number, message?: string) {
+        // UBT 的计数器每个文件都会变化，只在阶段变化时输出
+        const summary = message?.replace(/\s*\(\d+\/\d+\)$/, '');
+        if (summary && summary !== this._lastMessage) {
+            this._lastMessage = summary;
+            process.stderr.write(`[${Math.round(progress).toString().padStart(3)}%] ${summary}\n`);
+        }
+    }
+
+    public append(text: string) {
+        process.stdout.write(text);
+    }
+
+    public appendLine(text: string) {
+        process.stdout.write(`${text}\n`);
+    }
+
+    public diagnostics() {
+        // 诊断已经包含在编译输出中
+    }
+
+    public finish(result: CliResult) {
+        const problems = result.errors > 0 || result.warnings > 0 ? ` (${result.errors} 个错误, ${result.warnings} 个警告)` : '';
+        const duration = `${(result.duration / 1000).toFixed(1)}s`;
+        const label = COMMAND_LABELS[result.command];
+        if (result.status === 'succeeded') {
+            // 进程正常退出但输出中有错误时不显示为完成
+            const summary = result.errors > 0 ? `${label}结束, 但输出中有错误` : `${label}完成`;
+            process.stderr.write(`${summary}, 耗时 ${duration}${problems}\n`);
+            if (result.compileCommandsPath) {
+                process.stderr.write(`compile_commands.json: ${result.compileCommandsPath}\n`);
+            }
+            if (result.outputDir) {
+                process.stderr.write(`输出目录: ${result.outputDir}\n`);
+            }
+        } else if (result.status === 'cancelled') {
+            process.stderr.write('操作已取消\n');
+        } else {
+            process.stderr.write(`${label}失败: ${result.error}${problems}\n`);
+        }
+    }
+}
+
+class JsonReporter implements CliReporter {
+    private _log = new LineBuffer(line => this._write({ type: 'log', line }));
+
+    public progress(progress: number, message?: string, detail?: JobProgressDetail) {
+        this._write({ type: 'progress', progress: Math.round(progress), message, ...detail });
+    }
+
+    public append(text: string) {
+        this._log.feed(text);
+    }
+
+    public appendLine(text: string) {
+        this._log.feed(`${text}\n`);
+    }
+
+    public diagnostics(diagnostics: BuildDiagnostic[]) {
+        diagnostics.forEach(diagnostic => this._write({ type: 'diagnostic', ...diagnostic }));
+    }
+
+    public finish(result: CliResult) {
+        this._log.flush();
+        this._write({ type: 'result', ...result });
+    }
+
+    private _write(event: object) {
+        process.stdout.write(`${JSON.stringify(event)}\n`);
+    }
+}
+
+// 统计诊断数量后转发给输出
+function countDiagnostics(reporter: CliReporter, counts: { errors: number; warnings: number }): BuildEventSink {
+    return {
+        progress: (progress, message, detail) => reporter.progress(progress, message, detail),
+        append: text => reporter.append(text),
+        appendLine: text => reporter.appendLine(text),
+        diagnostics: diagnostics => {
+            counts.errors += diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+            counts.warnings += diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+            reporter.diagnostics(diagnostics);
+        }
+    };
+}
+
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    let request: BuildRequest;
+    let profile: PackageProfile;
+    try {
+        options = parseArgs(argv);
+        if (options.help) {
+            process.stdout.write(`${USAGE}\n`);
+            return EXIT_SUCCESS;
+        }
+        if (!options.command) {
+            throw new UsageError('缺少命令');
+        }
+        const team = loadTeamConfig(options);
+        request = await createRequest(options, team);
+        profile = createPackageProfile(options, team);
+        validateRequest(options.command, request, profile);
+        if (options.scopes) {
+            await validateCleanScopes(request, options.scopes);
+        }
+    } catch (error: any) {
+        if (!(error instanceof UsageError)) {
+            throw error;
+        }
+        process.stderr.write(`tare-ue: ${error.message}\n\n${USAGE}\n`);
+        return EXIT_USAGE;
+    }
+
+    const command = options.command;
+    const reporter: CliReporter = options.json ? new JsonReporter() : new TextReporter();
+    const counts = { errors: 0, warnings: 0 };
+    const sink = countDiagnostics(reporter, counts);
+    const runner = new JobRunner(createProcessLauncher());
+    const startTime = Date.now();
+    let output: Partial<CliResult> = {};
+
+    // 第一次 Ctrl+C 取消任务并等待子进程退出，第二次直接退出
+    let interrupted = false;
+    const onSignal = () => {
+        if (interrupted) {
+            process.exit(EXIT_CANCELLED);
+        }
+        interrupted = true;
+        runner.cancelAll();
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+
+    const job = runner.enqueue({
+        label: `${COMMAND_LABELS[command]} (${request.projectName} ${request.target.name} ${request.platform} ${request.config.buildConfiguration})`,
+        kind: command === 'package' ? 'package' : 'build',
+        run: async context => {
+            sink.appendLine(`=== ${COMMAND_LABELS[command]} ===`);
+            sink.appendLine(`项目: ${request.projectName}`);
+            sink.appendLine(`引擎: ${request.engineRoot}`);
+            sink.appendLine(`配置: ${request.config.buildConfiguration}`);
+            sink.appendLine(`目标: ${request.target.name}`);
+            sink.appendLine(`平台: ${request.platform}`);
+            output = await runCommand(command, options, context, request, profile, sink);
+            if (context.isCancelled()) {
+                throw new JobCancelledError(context.label);
+            }
+        }
+    });
+
+    let status: CliStatus = 'succeeded';
+    let errorMessage: string | undefined;
+    try {
+        await job.done;
+    } catch (error: any) {
+        status = error instanceof JobCancelledError ? 'cancelled' : 'failed';
+        errorMessage = error.message || String(error);
+    } finally {
+        process.off('SIGINT', onSignal);
+        process.off('SIGTERM', onSignal);
+    }
+
+    const exitCode = status === 'succeeded' ? EXIT_SUCCESS : status === 'cancelled' ? EXIT_CANCELLED : EXIT_FAILURE;
+    reporter.finish({
+        command,
+        status,
+        exitCode,
+        duration: Date.now() - startTime,
+        errors: counts.errors,
+        warnings: counts.warnings,
+        error: errorMessage,
+        ...output
+    });
+    return exitCode;
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+}, error => {
+    process.stderr.write(`tare-ue: ${error?.stack || error}\n`);
+    process.exitCode = EXIT_FAILURE;
+});
@@ -0,0 +1,336 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { getUBTArgs } from '../utils/ubtCommands';
+import { ProcessInfo, getHostPlatform } from '../utils/hostPlatform';
+import { UBTProgress, UBTProgressParser, getUBTPhaseLabel } from '../utils/ubtProgress';
+import { BuildDiagnostic, BuildOutputParser } from '../utils/buildOutputParser';
+import { JobCancelledError, JobContext, JobProgressDetail } from '../utils/jobRunner';
+import { BuildHookName, BuildRequest, validateBuildRequest } from './buildRequest';
+import { saveProjectFileSnapshot, scanProjectFiles } from './projectFiles';
+import { DEFAULT_CLEAN_SCOPES, findLockingProcesses, formatSize, getCleanScopes, getCleanTargets, selectCleanScopes } from './cleanScopes';
+
+export type ProgressRange = [number, number];
+
+// 构建核心不依赖 vscode，进度、日志和诊断通过事件接收器交给扩展或命令行处理
+export interface BuildEventSink {
+    progress(progress: number, message?: string, detail?: JobProgressDetail): void;
+    append(text: string): void;
+    appendLine(text: string): void;
+    diagnostics(diagnostics: BuildDiagnostic[]): void;
+}
+
+export interface GenerateOptions {
+    vscodeProject?: boolean;
+    // 设置后同时生成 compile_commands.json 到该目录
+    compileCommandsDir?: string;
+}
+
+export interface GenerateResult {
+    compileCommandsPath?: string;
+}
+
+export interface CleanOptions {
+    // 默认只清理项目的 Intermediate、Binaries 和 Saved/StagedBuilds
+    scopes?: string[];
+    // 只列出将删除的目录和大小
+    dryRun?: boolean;
+    // 扩展通过此回调移到回收站，默认永久删除
+    remove?: (directory: string) => Promise<void>;
+}
+
+// 传入 generateOptions 时先生成项目文件再编译，不删除 Intermediate 和 Binaries
+export async function build(context: JobContext, request: BuildRequest, sink: BuildEventSink, generateOptions?: GenerateOptions): Promise<GenerateResult> {
+    if (!generateOptions) {
+        await compile(context, request, sink, [5, 100]);
+        return {};
+    }
+
+    sink.appendLine('--- 生成项目文件 ---');
+    await generateProjectFiles(context, request, sink, [5, 25], generateOptions.vscodeProject);
+
+    const result: GenerateResult = {};
+    if (generateOptions.compileCommandsDir) {
+        sink.appendLine('--- 生成 compile_commands.json ---');
+        result.compileCommandsPath = await generateClangDatabase(context, request, sink, generateOptions.compileCommandsDir, [25, 35]);
+    }
+
+    sink.appendLine('--- 编译项目 ---');
+    await compile(context, request, sink, [35, 100]);
+    return result;
+}
+
+export async function cleanSolution(context: JobContext, request: BuildRequest, sink: BuildEventSink, options: CleanOptions = {}) {
+    sink.appendLine(`路径: ${request.config.projectPath}`);
+    await cleanDirectories(context, request, sink, [10, 100], options);
+}
+
+export async function generateSolution(context: JobContext, request: BuildRequest, sink: BuildEventSink, options: GenerateOptions = {}): Promise<GenerateResult> {
+    sink.appendLine('--- 删除现有解决方案文件 ---');
+    deleteSolution(request, sink);
+
+    sink.appendLine('--- 生成项目文件 ---');
+    await generateProjectFiles(context, request, sink, options.compileCommandsDir ? [10, 60] : [10, 100], options.vscodeProject);
+
+    if (!options.compileCommandsDir) {
+        return {};
+    }
+    sink.appendLine('--- 生成 compile_commands.json ---');
+    const compileCommandsPath = await generateClangDatabase(context, request, sink, options.compileCommandsDir, [60, 100]);
+    return { compileCommandsPath };
+}
+
+export async function regenerateSolution(context: JobContext, request: BuildRequest, sink: BuildEventSink, options: GenerateOptions = {}): Promise<GenerateResult> {
+    await cleanDirectories(context, request, sink, [10, 30]);
+
+    sink.appendLine('--- 删除现有解决方案文件 ---');
+    deleteSolution(request, sink);
+
+    sink.appendLine('--- 生成项目文件 ---');
+    await generateProjectFiles(context, request, sink, [35, 55], options.vscodeProject);
+
+    const result: GenerateResult = {};
+    if (options.compileCommandsDir) {
+        sink.appendLine('--- 生成 compile_commands.json ---');
+        result.compileCommandsPath = await generateClangDatabase(context, request, sink, options.compileCommandsDir, [55, 65]);
+    }
+
+    sink.appendLine('--- 编译项目 ---');
+    await compile(context, request, sink, [65, 100]);
+    return result;
+}
+
+export async function compile(context: JobContext, request: BuildRequest, sink: BuildEventSink, progressRange: ProgressRange = [0, 100]) {
+    sink.progress(progressRange[0], '正在编译...');
+
+    const buildScriptPath = getBuildScript(request);
+    const validation = validateBuildRequest(request);
+    if (!validation.valid) {
+        throw new Error(validation.error);
+    }
+
+    const args = getUBTArgs('build', {
+        target: request.target.name,
+        platform: request.platform,
+        configuration: request.config.buildConfiguration,
+        projectPath: request.config.projectPath
+    });
+    await runHooks(context, request, 'preBuild', sink);
+
+    sink.appendLine(`执行: ${buildScriptPath}`);
+    sink.appendLine(`参数: ${args.join(' ')}`);
+
+    await runUBT(context, buildScriptPath, args, request.projectDir, sink, progressRange);
+    await runHooks(context, request, 'postBuild', sink);
+}
+
+export async function cleanDirectories(context: JobContext, request: BuildRequest, sink: BuildEventSink, progressRange: ProgressRange, options: CleanOptions = {}) {
+    const projectDir = request.projectDir;
+    const scopes = selectCleanScopes(await getCleanScopes(projectDir), options.scopes || DEFAULT_CLEAN_SCOPES);
+    const [start, end] = progressRange;
+
+    sink.appendLine(`--- 清理中间文件 (${scopes.map(scope => scope.id).join(', ')}) ---`);
+    const targets = await getCleanTargets(scopes, options.dryRun);
+    if (targets.length === 0) {
+        sink.appendLine('没有需要清理的目录');
+        sink.progress(end, '正在清理...');
+        return;
+    }
+
+    if (options.dryRun) {
+        targets.forEach(target => sink.appendLine(`将删除: ${target.directory} (${formatSize(target.size || 0)})`));
+        const total = targets.reduce((sum, target) => sum + (target.size || 0), 0);
+        sink.appendLine(`共 ${targets.length} 个目录, ${formatSize(total)}`);
+        sink.progress(end, '预览完成');
+        return;
+    }
+
+    let lockingProcesses: ProcessInfo[] = [];
+    try {
+        lockingProcesses = await findLockingProcesses(request.config.projectPath);
+    } catch (error: any) {
+        sink.appendLine(`无法检查正在运行的进程: ${error.message || String(error)}`);
+    }
+    if (lockingProcesses.length > 0) {
+        throw new Error(`以下进程正在使用项目文件，请先关闭后再清理: ${lockingProcesses.map(proc => `${proc.name} (${proc.pid})`).join(', ')}`);
+    }
+
+    const remove = options.remove || (directory => fs.promises.rm(directory, { recursive: true, force: true, maxRetries: 3 }));
+    for (let i = 0; i < targets.length; i++) {
+        if (context.isCancelled()) {
+            throw new JobCancelledError(context.label);
+        }
+
+        const directory = targets[i].directory;
+        const name = path.relative(projectDir, directory);
+        sink.progress(start + (end - start) * i / targets.length, `正在删除 ${name}...`);
+        sink.appendLine(`删除: ${directory}`);
+        try {
+            await remove(directory);
+        } catch (error: any) {
+            if (error.code === 'EBUSY' || error.code === 'EPERM') {
+                throw new Error(`${name} 中的文件正在被其他进程使用: ${error.message || String(error)}`);
+            }
+            throw error;
+        }
+    }
+    sink.progress(end, '正在清理...');
+}
+
+export function deleteSolution(request: BuildRequest, sink: BuildEventSink) {
+    if (fs.existsSync(request.solutionPath)) {
+        sink.appendLine(`删除: ${request.solutionPath}`);
+        fs.unlinkSync(request.solutionPath);
+    } else {
+        sink.appendLine('解决方案文件不存在');
+    }
+}
+
+export async function generateProjectFiles(context: JobContext, request: BuildRequest, sink: BuildEventSink, progressRange: ProgressRange, vscodeProject: boolean = false) {
+    sink.progress(progressRange[0], '正在生成项目文件...');
+
+    const ubtPath = getBuildScript(request);
+    // 项目文件针对 Editor 目标生成，始终使用主机平台
+    const args = getUBTArgs('generate', {
+        target: `${request.projectName}Editor`,
+        platform: getHostPlatform().name,
+        configuration: 'Development',
+        projectPath: request.config.projectPath,
+        extraArgs: vscodeProject ? ['-VSCode'] : undefined
+    });
+    sink.appendLine(`执行: ${ubtPath}`);
+    sink.appendLine(`参数: ${args.join(' ')}`);
+
+    // 生成前记录输入文件，生成期间的修改在下次检查时仍视为过期
+    const snapshot = await scanProjectFiles(request.config.projectPath);
+    await runUBT(context, ubtPath, args, request.projectDir, sink, progressRange);
+    await saveProjectFileSnapshot(request.config.projectPath, snapshot);
+}
+
+// 返回生成的 compile_commands.json 路径
+export async function generateClangDatabase(context: JobContext, request: BuildRequest, sink: BuildEventSink, outputDir: string, progressRange: ProgressRange): Promise<string> {
+    sink.progress(progressRange[0], '正在生成 compile_commands.json...');
+
+    const ubtPath = getBuildScript(request);
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    const args = getUBTArgs('clangDatabase', {
+        target: request.target.name,
+        platform: request.platform,
+        configuration: request.config.buildConfiguration,
+        projectPath: request.config.projectPath,
+        extraArgs: [`-OutputDir=${outputDir}`]
+    });
+    sink.appendLine(`执行: ${ubtPath}`);
+    sink.appendLine(`参数: ${args.join(' ')}`);
+
+    await runUBT(context, ubtPath, args, request.projectDir, sink, progressRange);
+
+    const compileCommandsPath = path.join(outputDir, 'compile_commands.json');
+    if (!fs.existsSync(compileCommandsPath)) {
+        // 不支持 -OutputDir 的 UBT 版本会输出到引擎根目录
+        const engineOutput = path.join(request.engineRoot, 'compile_commands.json');
+        if (!fs.existsSync(engineOutput)) {
+            throw new Error(`未找到生成的 compile_commands.json: ${compileCommandsPath}`);
+        }
+        sink.appendLine(`复制: ${engineOutput} -> ${compileCommandsPath}`);
+        await fs.promises.copyFile(engineOutput, compileCommandsPath);
+    }
+    sink.appendLine(`compile_commands.json: ${compileCommandsPath}`);
+    return compileCommandsPath;
+}
+
+export async function runUBT(context: JobContext, executable: string, args: string[], cwd: string, sink: BuildEventSink, progressRange: ProgressRange) {
+    sink.appendLine(`执行命令: ${getHostPlatform().formatCommand(executable, args)}`);
+
+    const [start, end] = progressRange;
+    const parser = new BuildOutputParser(cwd);
+    const progressParser = new UBTProgressParser();
+    let errors = 0;
+    let warnings = 0;
+
+    const reportDiagnostics = (diagnostics: BuildDiagnostic[]) => {
+        if (diagnostics.length === 0) {
+            return;
+        }
+        errors += diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+        warnings += diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+        sink.diagnostics(diagnostics);
+    };
+
+    const reportProgress = (progress: UBTProgress | undefined) => {
+        if (!progress) {
+            return;
+        }
+        const counter = progress.total > 0 ? ` (${progress.completed}/${progress.total})` : '';
+        sink.progress(start + (end - start) * progress.progress / 100, `${getUBTPhaseLabel(progress.phase)}...${counter}`, {
+            phase: progress.phase,
+            currentFile: progress.currentFile
+        });
+    };
+
+    let failure: any;
+    try {
+        await context.runProcess(executable, args, {
+            cwd,
+            onOutput: (text, stream) => {
+                sink.append(text);
+                reportDiagnostics(parser.feed(text));
+                if (stream === 'stdout') {
+                    reportProgress(progressParser.feed(text));
+                }
+            }
+        });
+    } catch (error) {
+        failure = error;
+    }
+
+    reportDiagnostics(parser.flush());
+    reportProgress(progressParser.flush());
+
+    if (errors > 0 || warnings > 0) {
+        sink.appendLine(`问题: ${errors} 个错误, ${warnings} 个警告`);
+    }
+
+    if (failure) {
+        throw failure;
+    }
+    sink.progress(end, '正在处理...');
+}
+
+export async function runHooks(context: JobContext, request: BuildRequest, name: BuildHookName, sink: BuildEventSink) {
+    const commands = request.hooks?.[name] || [];
+    for (const command of commands) {
+        if (context.isCancelled()) {
+            throw new JobCancelledError(context.label);
+        }
+
+        sink.appendLine(`--- ${name}: ${command} ---`);
+        const shell = getHostPlatform().getShellCommand(command);
+        try {
+            await context.runProcess(shell.executable, shell.args, {
+                cwd: request.projectDir,
+                env: {
+                    UE_ENGINE_ROOT: request.engineRoot,
+                    UE_PROJECT_DIR: request.projectDir,
+                    UE_PROJECT_NAME: request.projectName,
+                    UE_TARGET: request.target.name,
+                    UE_PLATFORM: request.platform,
+                    UE_CONFIGURATION: request.config.buildConfiguration
+                },
+                onOutput: text => sink.append(text)
+            });
+        } catch (error: any) {
+            if (error instanceof JobCancelledError) {
+                throw error;
+            }
+            throw new Error(`${name} 钩子执行失败: ${command}\n${error.message || String(error)}`);
+        }
+    }
+}
+
+function getBuildScript(request: BuildRequest): string {
+    const buildScriptPath = getHostPlatform().getBuildScript(request.engineRoot);
+    if (!fs.existsSync(buildScriptPath)) {
+        throw new Error(`Build script not found at: ${buildScriptPath}`);
+    }
+    return buildScriptPath;
+}
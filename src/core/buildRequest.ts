@@ -0,0 +1,70 @@
+import * as path from 'path';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { ProjectTarget } from '../utils/projectTargets';
+import { isNativePlatform, validateTargetPlatform } from '../utils/targetPlatforms';
+import { isInstalledEngine, validateConfiguration } from '../utils/buildConfigurations';
+
+export interface BuildConfig {
+    uePath: string;
+    projectPath: string;
+    buildConfiguration: string;
+    buildTarget: string;
+    platform: string;
+}
+
+// 编译和打包前后在项目目录中执行的 shell 命令
+export interface BuildHooks {
+    preBuild?: string[];
+    postBuild?: string[];
+    prePackage?: string[];
+    postPackage?: string[];
+}
+
+export type BuildHookName = keyof BuildHooks;
+
+// 入队时的配置快照，避免排队期间修改面板影响已排队的任务
+export interface BuildRequest {
+    config: BuildConfig;
+    projectDir: string;
+    projectName: string;
+    solutionPath: string;
+    engineRoot: string;
+    target: ProjectTarget;
+    platform: string;
+    hooks?: BuildHooks;
+}
+
+export function createBuildRequest(config: BuildConfig, target: ProjectTarget, platform: string, hooks?: BuildHooks): BuildRequest {
+    const projectDir = path.dirname(config.projectPath);
+    const projectName = path.basename(config.projectPath, '.uproject');
+    return {
+        config: { ...config },
+        projectDir,
+        projectName,
+        solutionPath: path.join(projectDir, `${projectName}.sln`),
+        engineRoot: getHostPlatform().getEngineRoot(config.uePath),
+        target,
+        platform,
+        hooks
+    };
+}
+
+export function validatePlatform(target: ProjectTarget, platform: string, engineRoot: string): { valid: boolean; error?: string } {
+    const host = getHostPlatform().name;
+
+    if (target.type === 'Editor' && !isNativePlatform(platform, host)) {
+        return { valid: false, error: `Editor 目标只能为主机平台 ${host} 编译` };
+    }
+
+    return validateTargetPlatform(platform, host, engineRoot);
+}
+
+export function validateBuildRequest(request: BuildRequest): { valid: boolean; error?: string } {
+    const platformValidation = validatePlatform(request.target, request.platform, request.engineRoot);
+    if (!platformValidation.valid) {
+        return platformValidation;
+    }
+
+    const installedEngine = !!request.config.uePath && isInstalledEngine(request.engineRoot);
+    return validateConfiguration(request.config.buildConfiguration, request.target.type, installedEngine);
+}
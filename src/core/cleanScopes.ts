@@ -0,0 +1,168 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProcessInfo, getHostPlatform } from '../utils/hostPlatform';
+
+export type CleanScopeKind = 'project' | 'plugin' | 'ddc' | 'logs' | 'shaders';
+
+export interface CleanScope {
+    // project / plugin:<插件名> / ddc / logs / shaders
+    id: string;
+    kind: CleanScopeKind;
+    label: string;
+    directories: string[];
+}
+
+export interface CleanTarget {
+    scope: string;
+    directory: string;
+    size?: number;
+}
+
+export const DEFAULT_CLEAN_SCOPES = ['project'];
+// 选择全部插件时使用的范围 ID
+export const ALL_PLUGINS_SCOPE = 'plugins';
+
+export async function getCleanScopes(projectDir: string): Promise<CleanScope[]> {
+    const scopes: CleanScope[] = [{
+        id: 'project',
+        kind: 'project',
+        label: '项目 (Intermediate, Binaries, Saved/StagedBuilds)',
+        directories: ['Intermediate', 'Binaries', path.join('Saved', 'StagedBuilds')].map(dir => path.join(projectDir, dir))
+    }];
+
+    const plugins = await getHostPlatform().findFiles(path.join(projectDir, 'Plugins'), '.uplugin', {
+        maxDepth: 4,
+        ignoreDirs: ['Intermediate', 'Binaries', 'Source', 'Content', 'Resources', 'Config', 'Saved']
+    });
+    for (const plugin of plugins) {
+        const name = path.basename(plugin, '.uplugin');
+        const pluginDir = path.dirname(plugin);
+        scopes.push({
+            id: `plugin:${name}`,
+            kind: 'plugin',
+            label: `插件 ${name} (Intermediate, Binaries)`,
+            directories: [path.join(pluginDir, 'Intermediate'), path.join(pluginDir, 'Binaries')]
+        });
+    }
+
+    scopes.push(
+        {
+            id: 'ddc',
+            kind: 'ddc',
+            label: '派生数据缓存 (DerivedDataCache)',
+            directories: [path.join(projectDir, 'DerivedDataCache')]
+        },
+        {
+            id: 'logs',
+            kind: 'logs',
+            label: '日志 (Saved/Logs)',
+            directories: [path.join(projectDir, 'Saved', 'Logs')]
+        },
+        {
+            id: 'shaders',
+            kind: 'shaders',
+            label: '着色器缓存 (Intermediate/ShaderAutogen, Saved/ShaderDebugInfo)',
+            directories: [path.join(projectDir, 'Intermediate', 'ShaderAutogen'), path.join(projectDir, 'Saved', 'ShaderDebugInfo')]
+        }
+    );
+    return scopes;
+}
+
+// plugins 展开为全部插件，未知的范围视为参数错误
+export function selectCleanScopes(scopes: CleanScope[], ids: string[]): CleanScope[] {
+    const selected = new Set<CleanScope>();
+    for (const id of ids) {
+        const matches = id === ALL_PLUGINS_SCOPE
+            ? scopes.filter(scope => scope.kind === 'plugin')
+            : scopes.filter(scope => scope.id.toLowerCase() === id.toLowerCase());
+        if (matches.length === 0 && id !== ALL_PLUGINS_SCOPE) {
+            throw new Error(`未知的清理范围: ${id}，可选: ${[...scopes.map(scope => scope.id), ALL_PLUGINS_SCOPE].join(', ')}`);
+        }
+        matches.forEach(scope => selected.add(scope));
+    }
+    return scopes.filter(scope => selected.has(scope));
+}
+
+// 只返回存在的目录，已包含在其他目录中的子目录（如 Intermediate/ShaderAutogen）不重复删除
+export async function getCleanTargets(scopes: CleanScope[], measure: boolean = false): Promise<CleanTarget[]> {
+    const existing = new Map<string, CleanTarget>();
+    for (const scope of scopes) {
+        for (const directory of scope.directories) {
+            if (!existing.has(directory) && fs.existsSync(directory)) {
+                existing.set(directory, { scope: scope.id, directory });
+            }
+        }
+    }
+
+    const directories = [...existing.keys()];
+    const targets = [...existing.values()].filter(target => !directories.some(other => other !== target.directory && isInside(target.directory, other)));
+    if (measure) {
+        for (const target of targets) {
+            target.size = await getDirectorySize(target.directory);
+        }
+    }
+    return targets;
+}
+
+// 命令行中包含项目路径的编辑器或游戏进程会占用这些目录中的文件
+export async function findLockingProcesses(projectPath: string): Promise<ProcessInfo[]> {
+    // 带上末尾的分隔符，避免 /work/Game 匹配到 /work/Game2
+    const projectDir = normalizePath(path.dirname(projectPath)).replace(/\/?$/, '/');
+    const projectName = path.basename(projectPath, '.uproject');
+    const processes = [
+        ...await getHostPlatform().findProcesses('UnrealEditor'),
+        ...await getHostPlatform().findProcesses(projectName)
+    ];
+    const seen = new Set<number>();
+    return processes.filter(proc => {
+        if (seen.has(proc.pid) || proc.pid === process.pid) {
+            return false;
+        }
+        seen.add(proc.pid);
+        return normalizePath(proc.commandLine).includes(projectDir);
+    });
+}
+
+export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+async function getDirectorySize(dir: string): Promise<number> {
+    let size = 0;
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+        return 0;
+    }
+
+    for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            size += await getDirectorySize(fullPath);
+        } else {
+            try {
+                size += (await fs.promises.lstat(fullPath)).size;
+            } catch {
+                // 统计期间被删除的文件忽略
+            }
+        }
+    }
+    return size;
+}
+
+function isInside(child: string, parent: string): boolean {
+    const relative = path.relative(parent, child);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function normalizePath(value: string): string {
+    return value.replace(/\\/g, '/').toLowerCase();
+}
@@ -0,0 +1,177 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { validateTargetPlatform } from '../utils/targetPlatforms';
+import { ProjectTarget } from '../utils/projectTargets';
+import { BuildOutputParser } from '../utils/buildOutputParser';
+import { JobContext } from '../utils/jobRunner';
+import { BuildRequest } from './buildRequest';
+import { BuildEventSink, runHooks } from './buildCore';
+
+export interface PackageProfile {
+    name: string;
+    platform?: string;
+    configuration?: string;
+    outputDir?: string;
+    pak: boolean;
+    iostore: boolean;
+    extraArgs?: string[];
+}
+
+// 打包配置方案应用到构建请求后的实际参数
+export interface PackageSettings {
+    platform: string;
+    configuration: string;
+    outputDir: string;
+}
+
+export interface PackagePhase {
+    progress: number;
+    message: string;
+}
+
+// BuildCookRun 各阶段开始时的输出标记及对应进度
+const PACKAGE_PHASES: (PackagePhase & { marker: string })[] = [
+    { marker: 'BUILD COMMAND STARTED', progress: 10, message: '正在编译...' },
+    { marker: 'COOK COMMAND STARTED', progress: 30, message: '正在烘焙内容...' },
+    { marker: 'STAGE COMMAND STARTED', progress: 60, message: '正在暂存...' },
+    { marker: 'PACKAGE COMMAND STARTED', progress: 80, message: '正在打包...' },
+    { marker: 'ARCHIVE COMMAND STARTED', progress: 90, message: '正在归档...' }
+];
+
+// 按行查找阶段标记，标记可能被拆分到两个输出块中
+export class PackagePhaseParser {
+    private _buffer: string = '';
+    private _progress: number = 0;
+
+    // 返回值仅在进入新阶段时非空
+    public feed(text: string): PackagePhase | undefined {
+        const lines = (this._buffer + text).split(/\r?\n|\r/);
+        this._buffer = lines.pop() || '';
+        return this._parseLines(lines);
+    }
+
+    public flush(): PackagePhase | undefined {
+        const line = this._buffer;
+        this._buffer = '';
+        return line ? this._parseLines([line]) : undefined;
+    }
+
+    private _parseLines(lines: string[]): PackagePhase | undefined {
+        let current: PackagePhase | undefined;
+        for (const line of lines) {
+            const phase = PACKAGE_PHASES.find(candidate => line.includes(candidate.marker));
+            if (phase && phase.progress > this._progress) {
+                this._progress = phase.progress;
+                current = { progress: phase.progress, message: phase.message };
+            }
+        }
+        return current;
+    }
+}
+
+export function createDefaultPackageProfile(): PackageProfile {
+    return {
+        name: 'Default',
+        pak: true,
+        iostore: false
+    };
+}
+
+export function getPackageSettings(request: BuildRequest, profile: PackageProfile): PackageSettings {
+    const platform = profile.platform || request.platform;
+    return {
+        platform,
+        configuration: profile.configuration || request.config.buildConfiguration,
+        outputDir: profile.outputDir || path.join(request.projectDir, 'Saved', 'Packages', platform)
+    };
+}
+
+export function getBuildCookRunArgs(projectPath: string, target: ProjectTarget, settings: PackageSettings, profile: PackageProfile): string[] {
+    const { platform, configuration, outputDir } = settings;
+    const args = [
+        'BuildCookRun',
+        `-project=${projectPath}`,
+        '-noP4',
+        '-utf8output',
+        '-unattended',
+        `-platform=${platform}`,
+        `-clientconfig=${configuration}`,
+        `-serverconfig=${configuration}`,
+        '-build',
+        '-cook',
+        '-stage',
+        '-package',
+        '-archive',
+        `-archivedirectory=${outputDir}`
+    ];
+
+    if (target.type === 'Client') {
+        args.push('-client', `-target=${target.name}`);
+    } else if (target.type === 'Server') {
+        args.push('-server', '-noclient', `-serverplatform=${platform}`, `-target=${target.name}`);
+    } else if (target.type === 'Game') {
+        args.push(`-target=${target.name}`);
+    }
+
+    if (profile.pak) {
+        args.push('-pak');
+    }
+    if (profile.iostore) {
+        args.push('-iostore');
+    }
+
+    return [...args, ...(profile.extraArgs || [])];
+}
+
+export async function packageProject(context: JobContext, request: BuildRequest, profile: PackageProfile, sink: BuildEventSink) {
+    const settings = getPackageSettings(request, profile);
+
+    const uatPath = getHostPlatform().getUATScript(request.engineRoot);
+    if (!fs.existsSync(uatPath)) {
+        throw new Error(`RunUAT script not found at: ${uatPath}`);
+    }
+
+    const platformValidation = validateTargetPlatform(settings.platform, getHostPlatform().name, request.engineRoot);
+    if (!platformValidation.valid) {
+        throw new Error(platformValidation.error);
+    }
+
+    const args = getBuildCookRunArgs(request.config.projectPath, request.target, settings, profile);
+    sink.appendLine(`执行: ${uatPath}`);
+    sink.appendLine(`参数: ${args.join(' ')}`);
+
+    sink.progress(5, '正在准备打包...');
+    await runHooks(context, request, 'prePackage', sink);
+    await runUAT(context, uatPath, args, request.projectDir, sink);
+    await runHooks(context, request, 'postPackage', sink);
+    sink.progress(100, '打包完成');
+}
+
+async function runUAT(context: JobContext, executable: string, args: string[], cwd: string, sink: BuildEventSink): Promise<void> {
+    sink.appendLine(`执行命令: ${getHostPlatform().formatCommand(executable, args)}`);
+
+    const parser = new BuildOutputParser(cwd);
+    const phaseParser = new PackagePhaseParser();
+    const reportPhase = (phase: PackagePhase | undefined) => {
+        if (phase) {
+            sink.progress(phase.progress, phase.message);
+        }
+    };
+
+    try {
+        await context.runProcess(executable, args, {
+            cwd,
+            onOutput: (text, stream) => {
+                sink.append(text);
+                sink.diagnostics(parser.feed(text));
+                if (stream === 'stdout') {
+                    reportPhase(phaseParser.feed(text));
+                }
+            }
+        });
+    } finally {
+        sink.diagnostics(parser.flush());
+        reportPhase(phaseParser.flush());
+    }
+}
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { validateTargetPlatform } from '../utils/targetPlatforms';
+import { JobContext } from '../utils/jobRunner';
+import { BuildRequest } from './buildRequest';
+import { BuildEventSink, runUBT } from './buildCore';
+
+export interface PluginBuildOptions {
+    pluginFile: string;
+    platforms: string[];
+    // BuildPlugin 会清空输出目录，不能位于插件目录中
+    outputDir: string;
+}
+
+export function getDefaultPluginOutputDir(projectDir: string, pluginFile: string): string {
+    return path.join(projectDir, 'Saved', 'BuiltPlugins', path.basename(pluginFile, '.uplugin'));
+}
+
+export function getBuildPluginArgs(options: PluginBuildOptions): string[] {
+    return [
+        'BuildPlugin',
+        `-Plugin=${options.pluginFile}`,
+        `-Package=${options.outputDir}`,
+        `-TargetPlatforms=${options.platforms.join('+')}`,
+        '-utf8output',
+        '-unattended'
+    ];
+}
+
+export async function buildPlugin(context: JobContext, request: BuildRequest, options: PluginBuildOptions, sink: BuildEventSink) {
+    const uatPath = getHostPlatform().getUATScript(request.engineRoot);
+    if (!fs.existsSync(uatPath)) {
+        throw new Error(`RunUAT script not found at: ${uatPath}`);
+    }
+    if (!fs.existsSync(options.pluginFile)) {
+        throw new Error(`插件描述文件不存在: ${options.pluginFile}`);
+    }
+    if (options.platforms.length === 0) {
+        throw new Error('未选择目标平台');
+    }
+
+    const relative = path.relative(path.dirname(options.pluginFile), options.outputDir);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        throw new Error(`输出目录不能位于插件目录中: ${options.outputDir}`);
+    }
+
+    for (const platform of options.platforms) {
+        const validation = validateTargetPlatform(platform, getHostPlatform().name, request.engineRoot);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+    }
+
+    const args = getBuildPluginArgs(options);
+    sink.appendLine(`执行: ${uatPath}`);
+    sink.appendLine(`参数: ${args.join(' ')}`);
+
+    sink.progress(5, '正在编译插件...');
+    await runUBT(context, uatPath, args, path.dirname(options.pluginFile), sink, [5, 100]);
+    sink.appendLine(`输出目录: ${options.outputDir}`);
+    sink.progress(100, '插件编译完成');
+}
@@ -0,0 +1,175 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+// 上次生成项目文件时的输入快照，放在 Intermediate 中，清理后视为未知状态
+const STATE_FILE = path.join('Intermediate', 'TareToUE5', 'ProjectFileState.json');
+const SOURCE_EXTENSIONS = ['.h', '.hpp', '.inl', '.c', '.cc', '.cpp'];
+const SKIPPED_DIRECTORIES = ['Intermediate', 'Binaries', 'Saved', 'Content', 'DerivedDataCache'];
+
+export interface ProjectFileSnapshot {
+    // .uproject / *.uplugin / *.Build.cs / *.Target.cs 的相对路径和内容哈希
+    buildFiles: Record<string, string>;
+    // 源文件的相对路径，只关心新增和删除
+    sources: string[];
+}
+
+export type ProjectFileChangeKind = 'added' | 'removed' | 'modified';
+
+export interface ProjectFileChange {
+    kind: ProjectFileChangeKind;
+    file: string;
+}
+
+export interface ProjectFileStatus {
+    stale: boolean;
+    changes: ProjectFileChange[];
+}
+
+export async function scanProjectFiles(projectPath: string): Promise<ProjectFileSnapshot> {
+    const projectDir = path.dirname(projectPath);
+    const snapshot: ProjectFileSnapshot = { buildFiles: {}, sources: [] };
+
+    const visit = async (dir: string, inSource: boolean) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const entry of entries) {
+            const file = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name)) {
+                    await visit(file, inSource || entry.name === 'Source');
+                }
+            } else if (isProjectBuildFile(entry.name)) {
+                snapshot.buildFiles[toRelative(projectDir, file)] = await hashFile(file);
+            } else if (inSource && isProjectSourceFile(entry.name)) {
+                snapshot.sources.push(toRelative(projectDir, file));
+            }
+        }
+    };
+
+    if (fs.existsSync(projectPath)) {
+        snapshot.buildFiles[path.basename(projectPath)] = await hashFile(projectPath);
+    }
+    await visit(path.join(projectDir, 'Source'), true);
+    await visit(path.join(projectDir, 'Plugins'), false);
+    snapshot.sources.sort();
+    return snapshot;
+}
+
+export function readProjectFileSnapshot(projectPath: string): ProjectFileSnapshot | undefined {
+    try {
+        const content = JSON.parse(fs.readFileSync(getStateFile(projectPath), 'utf8'));
+        if (content && typeof content.buildFiles === 'object' && Array.isArray(content.sources)) {
+            return content as ProjectFileSnapshot;
+        }
+    } catch {
+        // 文件不存在或已损坏时视为没有快照
+    }
+    return undefined;
+}
+
+export async function saveProjectFileSnapshot(projectPath: string, snapshot: ProjectFileSnapshot) {
+    const stateFile = getStateFile(projectPath);
+    await fs.promises.mkdir(path.dirname(stateFile), { recursive: true });
+    await fs.promises.writeFile(stateFile, JSON.stringify(snapshot), 'utf8');
+}
+
+export function compareProjectFiles(previous: ProjectFileSnapshot, current: ProjectFileSnapshot): ProjectFileChange[] {
+    const changes: ProjectFileChange[] = [];
+    for (const [file, hash] of Object.entries(current.buildFiles)) {
+        if (!(file in previous.buildFiles)) {
+            changes.push({ kind: 'added', file });
+        } else if (previous.buildFiles[file] !== hash) {
+            changes.push({ kind: 'modified', file });
+        }
+    }
+    for (const file of Object.keys(previous.buildFiles)) {
+        if (!(file in current.buildFiles)) {
+            changes.push({ kind: 'removed', file });
+        }
+    }
+
+    const previousSources = new Set(previous.sources);
+    const currentSources = new Set(current.sources);
+    current.sources.filter(file => !previousSources.has(file)).forEach(file => changes.push({ kind: 'added', file }));
+    previous.sources.filter(file => !currentSources.has(file)).forEach(file => changes.push({ kind: 'removed', file }));
+    return changes;
+}
+
+// 没有快照时（首次使用或已清理）比较构建文件和已生成项目文件的修改时间，未过期则以当前状态为基准
+export async function checkProjectFiles(projectPath: string): Promise<ProjectFileStatus> {
+    const current = await scanProjectFiles(projectPath);
+    const previous = readProjectFileSnapshot(projectPath);
+    if (previous) {
+        const changes = compareProjectFiles(previous, current);
+        return { stale: changes.length > 0, changes };
+    }
+
+    const generatedTime = getProjectFilesTime(projectPath);
+    if (generatedTime === undefined) {
+        return { stale: false, changes: [] };
+    }
+
+    const projectDir = path.dirname(projectPath);
+    const changes: ProjectFileChange[] = Object.keys(current.buildFiles)
+        .filter(file => getModifiedTime(path.join(projectDir, file)) > generatedTime)
+        .map(file => ({ kind: 'modified', file }));
+    if (changes.length === 0) {
+        await saveProjectFileSnapshot(projectPath, current);
+    }
+    return { stale: changes.length > 0, changes };
+}
+
+export function formatProjectFileChange(change: ProjectFileChange): string {
+    const labels: Record<ProjectFileChangeKind, string> = { added: '新增', removed: '删除', modified: '修改' };
+    return `${labels[change.kind]}: ${change.file}`;
+}
+
+function getStateFile(projectPath: string): string {
+    return path.join(path.dirname(projectPath), STATE_FILE);
+}
+
+// 已生成项目文件中最新的修改时间：Visual Studio 解决方案、-VSCode 工作区或 Intermediate/ProjectFiles
+function getProjectFilesTime(projectPath: string): number | undefined {
+    const projectDir = path.dirname(projectPath);
+    const projectName = path.basename(projectPath, '.uproject');
+    const times = [
+        path.join(projectDir, `${projectName}.sln`),
+        path.join(projectDir, `${projectName}.code-workspace`),
+        path.join(projectDir, 'Intermediate', 'ProjectFiles')
+    ].map(getModifiedTime).filter(time => time > 0);
+    return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+function getModifiedTime(file: string): number {
+    try {
+        return fs.statSync(file).mtimeMs;
+    } catch {
+        return 0;
+    }
+}
+
+async function hashFile(file: string): Promise<string> {
+    try {
+        return crypto.createHash('sha1').update(await fs.promises.readFile(file)).digest('hex');
+    } catch {
+        return '';
+    }
+}
+
+function toRelative(projectDir: string, file: string): string {
+    return path.relative(projectDir, file).split(path.sep).join('/');
+}
+
+function isProjectBuildFile(file: string): boolean {
+    return /\.(uproject|uplugin)$/i.test(file) || /\.(Build|Target)\.cs$/i.test(file);
+}
+
+function isProjectSourceFile(file: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
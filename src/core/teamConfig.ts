@@ -0,0 +1,183 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { LaunchProfile } from '../utils/launchProfiles';
+import { MultiplayerOptions } from '../utils/multiplayerSession';
+import { BuildHooks } from './buildRequest';
+import { PackageProfile } from './packageCore';
+
+// 提交到仓库的团队配置，字段与 ueBuilder.* 设置同名，用户和工作区设置优先
+export const TEAM_CONFIG_FILES = ['.uebuilder.json', '.uebuilder.jsonc'];
+
+export interface TeamConfig {
+    // 引擎根目录，未设置 uePath 时据此得到编辑器路径
+    engineRoot?: string;
+    uePath?: string;
+    projectPath?: string;
+    buildConfiguration?: string;
+    buildTarget?: string;
+    platform?: string;
+    generateClangDatabase?: boolean;
+    generateVSCodeProject?: boolean;
+    compileCommandsDir?: string;
+    launchProfiles?: LaunchProfile[];
+    activeLaunchProfile?: string;
+    packageProfiles?: PackageProfile[];
+    activePackageProfile?: string;
+    multiplayer?: Partial<MultiplayerOptions>;
+    hooks?: BuildHooks;
+}
+
+export interface TeamConfigVariables {
+    workspaceFolder: string;
+    engineRoot?: string;
+    engineDir?: string;
+    projectDir?: string;
+    projectName?: string;
+    env?: NodeJS.ProcessEnv;
+}
+
+export interface TeamConfigContext {
+    // 相对路径和 ${workspaceFolder} 的基准目录
+    workspaceFolder: string;
+    // 设置中的引擎和项目路径优先于团队配置，用于计算 ${engineDir} 等变量
+    uePath?: string;
+    projectPath?: string;
+    env?: NodeJS.ProcessEnv;
+    // 字段中有未定义的变量时调用，该字段视为未设置
+    onUnresolved?: UnresolvedReporter;
+}
+
+export type UnresolvedReporter = (field: string, variables: string[]) => void;
+
+// ${workspaceFolder} ${env:UE_ROOT} ${engineDir} ...
+const VARIABLE_PATTERN = /\$\{(\w+)(?::([^}]*))?\}/g;
+
+// 字符串整体匹配，避免把字符串中的 // 或 ,} 当作注释和多余的逗号
+const JSONC_COMMENT_PATTERN = /"(?:[^"\\]|\\.)*"|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+const JSONC_TRAILING_COMMA_PATTERN = /"(?:[^"\\]|\\.)*"|,(\s*[}\]])/g;
+
+// 去掉注释和末尾多余的逗号后按 JSON 解析，保留换行使错误位置与原文件一致
+export function parseJsonc(content: string): unknown {
+    const json = content
+        .replace(/^\uFEFF/, '')
+        .replace(JSONC_COMMENT_PATTERN, match => match.startsWith('"') ? match : match.replace(/[^\n]/g, ' '))
+        .replace(JSONC_TRAILING_COMMA_PATTERN, (match, tail: string | undefined) => tail === undefined ? match : ` ${tail}`);
+    return JSON.parse(json);
+}
+
+export function findTeamConfigFile(dir: string): string | undefined {
+    return TEAM_CONFIG_FILES
+        .map(name => path.join(dir, name))
+        .find(file => fs.existsSync(file));
+}
+
+export function readTeamConfig(file: string): TeamConfig {
+    let content: unknown;
+    try {
+        content = parseJsonc(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`${path.basename(file)} 解析失败: ${error.message || String(error)}`);
+    }
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+        throw new Error(`${path.basename(file)} 必须是 JSON 对象`);
+    }
+    return content as TeamConfig;
+}
+
+// 有任何变量无法解析时返回 undefined，避免 ${env:UE_ROOT}/Engine 变成 /Engine 这样的错误路径
+export function substituteVariables(value: string, variables: TeamConfigVariables, unresolved: string[] = []): string | undefined {
+    const missing: string[] = [];
+    const result = value.replace(VARIABLE_PATTERN, (match, name: string, argument: string | undefined) => {
+        const resolved = resolveVariable(name, argument, variables);
+        if (!resolved) {
+            missing.push(match);
+            return match;
+        }
+        return resolved;
+    });
+    unresolved.push(...missing);
+    return missing.length > 0 ? undefined : result;
+}
+
+function resolveVariable(name: string, argument: string | undefined, variables: TeamConfigVariables): string | undefined {
+    switch (name) {
+        case 'env':
+            return argument ? (variables.env || process.env)[argument] : undefined;
+        case 'userHome':
+            return os.homedir();
+        case 'workspaceFolder':
+        case 'engineRoot':
+        case 'engineDir':
+        case 'projectDir':
+        case 'projectName':
+            return variables[name];
+        default:
+            return undefined;
+    }
+}
+
+// 无法解析的字符串从数组中移除，对象中对应的字段视为未设置
+function substituteDeep(value: string, variables: TeamConfigVariables, report: UnresolvedReporter, field: string): string | undefined;
+function substituteDeep<T>(value: T, variables: TeamConfigVariables, report: UnresolvedReporter, field: string): T;
+function substituteDeep(value: unknown, variables: TeamConfigVariables, report: UnresolvedReporter, field: string): unknown {
+    if (typeof value === 'string') {
+        const unresolved: string[] = [];
+        const result = substituteVariables(value, variables, unresolved);
+        if (unresolved.length > 0) {
+            report(field, unresolved);
+        }
+        return result;
+    }
+    if (Array.isArray(value)) {
+        return value
+            .map((item: unknown, index) => substituteDeep(item, variables, report, `${field}[${index}]`))
+            .filter(item => item !== undefined);
+    }
+    if (isRecord(value)) {
+        const entries = Object.entries(value)
+            .map(([key, item]): [string, unknown] => [key, substituteDeep(item, variables, report, field ? `${field}.${key}` : key)])
+            .filter(([, item]) => item !== undefined);
+        return Object.fromEntries(entries);
+    }
+    return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// 先解析引擎和项目路径，再用得到的 ${engineDir} / ${projectName} 等变量替换其他字段
+export function resolveTeamConfig(raw: TeamConfig, context: TeamConfigContext): TeamConfig {
+    const base: TeamConfigVariables = { workspaceFolder: context.workspaceFolder, env: context.env };
+    const report: UnresolvedReporter = context.onUnresolved || (() => undefined);
+    const resolvePath = (field: string, value: string | undefined) => {
+        const resolved = typeof value === 'string' ? substituteDeep(value, base, report, field) : undefined;
+        return resolved ? path.resolve(context.workspaceFolder, resolved) : undefined;
+    };
+
+    const engineRoot = resolvePath('engineRoot', raw.engineRoot);
+    const uePath = resolvePath('uePath', raw.uePath) || (engineRoot ? getHostPlatform().getEditorPath(engineRoot) : undefined);
+    const projectPath = resolvePath('projectPath', raw.projectPath);
+
+    const effectiveUEPath = context.uePath || uePath;
+    const effectiveProjectPath = context.projectPath || projectPath;
+    const effectiveEngineRoot = effectiveUEPath ? getHostPlatform().getEngineRoot(effectiveUEPath) : undefined;
+    const variables: TeamConfigVariables = {
+        ...base,
+        engineRoot: effectiveEngineRoot,
+        engineDir: effectiveEngineRoot ? path.join(effectiveEngineRoot, 'Engine') : undefined,
+        projectDir: effectiveProjectPath ? path.dirname(effectiveProjectPath) : undefined,
+        projectName: effectiveProjectPath ? path.basename(effectiveProjectPath, '.uproject') : undefined
+    };
+
+    const { engineRoot: _engineRoot, uePath: _uePath, projectPath: _projectPath, ...rest } = raw;
+    return { ...substituteDeep(rest, variables, report, ''), engineRoot, uePath, projectPath };
+}
+
+// 团队配置中的方案在前，同名时以用户/工作区设置为准
+export function mergeNamed<T extends { name: string }>(team: T[] | undefined, settings: T[]): T[] {
+    const overridden = new Set(settings.map(item => item.name));
+    return [...(team || []).filter(item => !overridden.has(item.name)), ...settings];
+}
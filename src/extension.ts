@@ -1,24 +1,43 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { ConfigManager } from './managers/configManager';
 import { BuildManager } from './managers/buildManager';
 import { DebugManager } from './managers/debugManager';
-
-const execAsync = promisify(exec);
+import { DiagnosticsManager } from './managers/diagnosticsManager';
+import { PackageManager } from './managers/packageManager';
+import { PackageProfile } from './core/packageCore';
+import { TEAM_CONFIG_FILES } from './core/teamConfig';
+import { EngineManager } from './managers/engineManager';
+import { ProjectManager } from './managers/projectManager';
+import { HistoryManager } from './managers/historyManager';
+import { LogViewerManager } from './managers/logViewerManager';
+import { CrashReportManager } from './managers/crashReportManager';
+import { AutomationTestManager } from './managers/automationTestManager';
+import { StatusBarManager } from './managers/statusBarManager';
+import { ProjectFilesChangeEvent, ProjectFilesManager } from './managers/projectFilesManager';
+import { PluginManager } from './managers/pluginManager';
+import { TaskManager, UE_TASK_TYPE } from './managers/taskManager';
+import { createProcessLauncher, getHostPlatform } from './utils/hostPlatform';
+import { JobInfo, JobRunner } from './utils/jobRunner';
+import { discoverTargets } from './utils/projectTargets';
+import { TARGET_PLATFORMS } from './utils/targetPlatforms';
+import { LaunchProfile, LaunchProfileInput, parseLaunchProfileInput } from './utils/launchProfiles';
+import { MultiplayerOptions } from './utils/multiplayerSession';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('UE Builder extension is now active!');
 
-    const provider = new UEBuilderPanelProvider(context.extensionUri);
+    const provider = new UEBuilderPanelProvider(context.extensionUri, context.workspaceState, context.storageUri || context.globalStorageUri);
     context.subscriptions.push(
-        vscode.window.registerWebviewViewProvider('ueBuilderPanel', provider)
+        vscode.window.registerWebviewViewProvider('ueBuilderPanel', provider),
+        provider,
+        ...provider.registerCommands()
     );
+    provider.initialize();
 }
 
-class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
+class UEBuilderPanelProvider implements vscode.WebviewViewProvider, vscode.Disposable {
     private _view?: vscode.WebviewView;
     private _disposables: vscode.Disposable[] = [];
     private _isDetecting: boolean = false;
@@ -27,11 +46,136 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
     private _configManager: ConfigManager;
     private _buildManager: BuildManager;
     private _debugManager: DebugManager;
-
-    constructor(private readonly _extensionUri: vscode.Uri) {
+    private _diagnosticsManager: DiagnosticsManager;
+    private _packageManager: PackageManager;
+    private _engineManager: EngineManager;
+    private _projectManager: ProjectManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+    private _logViewerManager: LogViewerManager;
+    private _crashReportManager: CrashReportManager;
+    private _automationTestManager: AutomationTestManager;
+    private _statusBarManager: StatusBarManager;
+    private _projectFilesManager: ProjectFilesManager;
+    private _pluginManager: PluginManager;
+    private _taskManager: TaskManager;
+    private _buildFilePromptVisible: boolean = false;
+    // _refresh 自己写入 uePath / projectPath 时触发的配置变更事件不再重复刷新
+    private _writingPathSettings: number = 0;
+    private _refreshedPathSettings?: string;
+    // 已显示过的团队配置警告，同一份配置文件只提示一次
+    private _shownTeamConfigWarnings = new Set<string>();
+
+    constructor(private readonly _extensionUri: vscode.Uri, workspaceState: vscode.Memento, storageUri: vscode.Uri) {
         this._configManager = new ConfigManager();
-        this._buildManager = new BuildManager(this._configManager);
-        this._debugManager = new DebugManager(this._configManager);
+        this._diagnosticsManager = new DiagnosticsManager();
+        this._historyManager = new HistoryManager(storageUri);
+        this._jobRunner = new JobRunner(createProcessLauncher());
+        this._logViewerManager = new LogViewerManager(this._extensionUri, this._configManager);
+        this._crashReportManager = new CrashReportManager(this._configManager);
+        this._projectFilesManager = new ProjectFilesManager(this._configManager);
+        this._buildManager = new BuildManager(this._configManager, this._diagnosticsManager, this._jobRunner, this._historyManager, this._projectFilesManager);
+        this._debugManager = new DebugManager(this._configManager, this._diagnosticsManager, this._buildManager, this._jobRunner, this._historyManager, this._logViewerManager);
+        this._automationTestManager = new AutomationTestManager(this._configManager, this._diagnosticsManager, this._buildManager, this._jobRunner, this._historyManager);
+        this._packageManager = new PackageManager(this._configManager, this._diagnosticsManager, this._jobRunner, this._historyManager);
+        this._statusBarManager = new StatusBarManager(this._configManager, this._jobRunner);
+        this._taskManager = new TaskManager(this._configManager);
+        this._engineManager = new EngineManager(this._configManager);
+        this._projectManager = new ProjectManager(workspaceState);
+        this._pluginManager = new PluginManager(this._configManager, this._engineManager, this._diagnosticsManager, this._jobRunner, this._historyManager);
+
+        this._jobRunner.on('changed', (jobs: JobInfo[]) => {
+            this._sendJobs(jobs);
+            vscode.commands.executeCommand('setContext', 'ueBuilder.hasActiveJobs', this._jobRunner.hasActiveJobs());
+        });
+        this._jobRunner.on('progress', (job: JobInfo) => {
+            // 进度条只显示队列中的任务，并行任务的进度显示在任务列表中
+            if (!job.parallel) {
+                this._view?.webview.postMessage({
+                    type: 'buildProgress',
+                    jobId: job.id,
+                    progress: job.progress,
+                    message: job.message,
+                    phase: job.phase,
+                    currentFile: job.currentFile,
+                    eta: job.eta
+                });
+            }
+            this._sendJobs(this._jobRunner.getJobs());
+        });
+
+        const projectWatcher = vscode.workspace.createFileSystemWatcher('**/*.uproject', false, true, false);
+        const teamConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/{${TEAM_CONFIG_FILES.join(',')}}`);
+        const rediscover = async () => {
+            await this._projectManager.discoverProjects();
+            this._projectManager.sendProjects(this._configManager.getConfig().projectPath);
+        };
+        this._disposables.push(
+            vscode.tasks.registerTaskProvider(UE_TASK_TYPE, this._taskManager),
+            projectWatcher,
+            projectWatcher.onDidCreate(rediscover),
+            projectWatcher.onDidDelete(rediscover),
+            this._projectFilesManager.onDidChangeFiles(event => this._onProjectFilesChanged(event)),
+            teamConfigWatcher,
+            teamConfigWatcher.onDidChange(() => this._refresh()),
+            teamConfigWatcher.onDidCreate(() => this._refresh()),
+            teamConfigWatcher.onDidDelete(() => this._refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => this._onDidChangeConfiguration(event)),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                this._projectManager.sendActiveFileProject(editor, this._configManager.getConfig().projectPath);
+            })
+        );
+    }
+
+    public initialize() {
+        // 面板未打开时也加载配置，使命令和状态栏可用
+        this._taskManager.setReady(this._refresh());
+    }
+
+    public registerCommands(): vscode.Disposable[] {
+        const commands: [string, (...args: any[]) => unknown][] = [
+            ['ueBuilder.refresh', () => this._refresh()],
+            ['ueBuilder.build', () => this._buildManager.build()],
+            ['ueBuilder.cleanSolution', () => this._buildManager.cleanSolution()],
+            ['ueBuilder.previewClean', () => this._buildManager.previewClean()],
+            ['ueBuilder.selectCleanScopes', () => this._buildManager.selectCleanScopes()],
+            ['ueBuilder.generateSolution', () => this._buildManager.generateSolution()],
+            ['ueBuilder.regenerateSolution', () => this._buildManager.regenerateSolution()],
+            ['ueBuilder.generateClangDatabase', () => this._buildManager.generateClangDatabase()],
+            ['ueBuilder.startDebug', () => this._debugManager.startDebug()],
+            ['ueBuilder.startWithoutDebug', () => this._debugManager.startWithoutDebug()],
+            ['ueBuilder.launchProject', () => this._debugManager.launchProject()],
+            ['ueBuilder.startMultiplayerSession', () => this._debugManager.startMultiplayerSession()],
+            ['ueBuilder.stopMultiplayerSession', () => this._debugManager.stopMultiplayerSession()],
+            ['ueBuilder.attachDebugger', () => this._debugManager.attachToProcess()],
+            ['ueBuilder.openLogViewer', () => this._logViewerManager.show()],
+            ['ueBuilder.refreshCrashReports', () => this._crashReportManager.refresh()],
+            ['ueBuilder.showCrashReport', () => this._crashReportManager.showReport()],
+            ['ueBuilder.openCrashFrame', frame => this._crashReportManager.openFrame(frame)],
+            ['ueBuilder.openCrashFolder', node => this._crashReportManager.openFolder(node)],
+            ['ueBuilder.discoverAutomationTests', () => this._automationTestManager.discoverFromEditor()],
+            ['ueBuilder.runAutomationTests', () => this._automationTestManager.runTests()],
+            ['ueBuilder.rerunFailedAutomationTests', () => this._automationTestManager.rerunFailedTests()],
+            ['ueBuilder.packageProject', () => this._packageManager.packageProject()],
+            ['ueBuilder.refreshPlugins', () => this._pluginManager.refresh()],
+            ['ueBuilder.enablePlugin', node => this._pluginManager.setEnabled(node, true)],
+            ['ueBuilder.disablePlugin', node => this._pluginManager.setEnabled(node, false)],
+            ['ueBuilder.buildPlugin', node => this._pluginManager.buildPlugin(node)],
+            ['ueBuilder.cancel', () => this._jobRunner.cancelAll()],
+            ['ueBuilder.selectProject', async () => {
+                if (await this._projectManager.pickProject()) {
+                    await this._refreshIfPathsChanged();
+                }
+            }]
+        ];
+
+        return commands.map(([command, handler]) => vscode.commands.registerCommand(command, async (...args: any[]) => {
+            // 面板打开前配置可能尚未加载
+            if (!this._configManager.getConfig().projectPath) {
+                await this._refresh();
+            }
+            return handler(...args);
+        }));
     }
 
     public async resolveWebviewView(
@@ -43,7 +187,12 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
         this._view = webviewView;
         this._configManager.setView(webviewView);
         this._buildManager.setView(webviewView);
+        this._projectFilesManager.setView(webviewView);
         this._debugManager.setView(webviewView);
+        this._packageManager.setView(webviewView);
+        this._engineManager.setView(webviewView);
+        this._projectManager.setView(webviewView);
+        this._historyManager.setView(webviewView);
 
         webviewView.webview.options = {
             enableScripts: true,
@@ -57,42 +206,145 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
             switch (data.type) {
                 case 'selectUEPath':
                     await selectUEPath();
+                    this._refreshIfPathsChanged();
+                    break;
+                case 'selectEngine':
+                    await this._engineManager.selectEngine(data.root);
+                    this._refreshIfPathsChanged();
+                    break;
+                case 'refreshEngines':
+                    await this._engineManager.discover(true);
                     this._refresh();
                     break;
                 case 'selectProjectPath':
-                    await selectProjectPath();
-                    this._refresh();
+                    await selectProjectPath(this._projectManager);
+                    this._refreshIfPathsChanged();
+                    break;
+                case 'pickProject':
+                    if (await this._projectManager.pickProject()) {
+                        this._refreshIfPathsChanged();
+                    }
+                    break;
+                case 'selectProject':
+                    await this._projectManager.setActiveProject(data.path);
+                    this._refreshIfPathsChanged();
                     break;
                 case 'cleanSolution':
-                    await this._cleanSolution();
+                    this._cleanSolution();
+                    break;
+                case 'previewClean':
+                    this._buildManager.previewClean();
+                    break;
+                case 'setCleanScopes':
+                    await this._buildManager.setCleanScopes(data.scopes);
+                    break;
+                case 'setCleanUseTrash':
+                    await vscode.workspace.getConfiguration('ueBuilder').update('cleanUseTrash', !!data.useTrash, vscode.ConfigurationTarget.Workspace);
                     break;
                 case 'regenerateSolution':
-                    await this._regenerateSolution();
+                    this._regenerateSolution();
                     break;
                 case 'generateSolution':
-                    await this._generateSolution();
+                    this._generateSolution();
+                    break;
+                case 'generateClangDatabase':
+                    this._buildManager.generateClangDatabase();
+                    break;
+                case 'build':
+                    this._buildManager.build();
                     break;
                 case 'startDebug':
-                    await this._startDebug();
+                    this._startDebug(data.profile);
                     break;
                 case 'startWithoutDebug':
-                    await this._startWithoutDebug();
+                    this._startWithoutDebug(data.profile);
                     break;
                 case 'launchProject':
-                    await this._launchProject();
+                    await this._launchProject(data.profile);
+                    break;
+                case 'startMultiplayer':
+                    await this._startMultiplayer(data.options);
+                    break;
+                case 'stopMultiplayer':
+                    this._debugManager.stopMultiplayerSession();
+                    break;
+                case 'selectLaunchProfile':
+                    await this._debugManager.selectLaunchProfile(data.name);
+                    break;
+                case 'saveLaunchProfile':
+                    await this._saveLaunchProfile(data.profile);
+                    break;
+                case 'deleteLaunchProfile':
+                    await this._debugManager.deleteLaunchProfile(data.name);
+                    break;
+                case 'attachDebugger':
+                    await this._debugManager.attachToProcess();
+                    break;
+                case 'openLogViewer':
+                    await this._logViewerManager.show();
                     break;
                 case 'cancelBuild':
                     this._buildManager.cancelBuild();
+                    this._packageManager.cancelPackage();
+                    break;
+                case 'packageProject':
+                    this._packageProject(data.profile);
+                    break;
+                case 'cancelPackage':
+                    this._packageManager.cancelPackage();
+                    break;
+                case 'selectPackageProfile':
+                    await this._packageManager.selectProfile(data.name);
+                    break;
+                case 'savePackageProfile':
+                    await this._savePackageProfile(data.profile);
                     break;
+                case 'deletePackageProfile':
+                    await this._packageManager.deleteProfile(data.name);
+                    break;
+                case 'selectPackageOutputDir': {
+                    const outputDir = await this._packageManager.selectOutputDir();
+                    if (outputDir) {
+                        this._view?.webview.postMessage({ type: 'packageOutputDir', outputDir });
+                    }
+                    break;
+                }
                 case 'cancelDebug':
                     this._debugManager.cancelDebug();
                     break;
+                case 'cancelJob':
+                    this._jobRunner.cancel(data.id);
+                    break;
+                case 'cancelAllJobs':
+                    this._jobRunner.cancelAll();
+                    break;
+                case 'clearFinishedJobs':
+                    this._jobRunner.clearFinished();
+                    break;
+                case 'openHistoryLog':
+                    await this._historyManager.openLog(data.id);
+                    break;
+                case 'rerunHistory':
+                    this._rerunHistory(data.id);
+                    break;
+                case 'clearHistory':
+                    await this._historyManager.clear();
+                    break;
                 case 'refresh':
                     this._refresh();
                     break;
                 case 'redetect':
                     await this._redetectProject();
                     break;
+                case 'setBuildConfiguration':
+                    await this._setBuildConfiguration(data.buildConfiguration);
+                    break;
+                case 'setBuildTarget':
+                    await this._setBuildTarget(data.buildTarget);
+                    break;
+                case 'setPlatform':
+                    await this._setPlatform(data.platform);
+                    break;
             }
         });
 
@@ -106,28 +358,246 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
         this._refresh();
     }
 
-    private async _cleanSolution() {
-        await this._buildManager.cleanSolution();
+    public dispose() {
+        this._stopDetection();
+        this._jobRunner.cancelAll();
+        this._jobRunner.removeAllListeners();
+        this._debugManager.dispose();
+        this._logViewerManager.dispose();
+        this._crashReportManager.dispose();
+        this._automationTestManager.dispose();
+        this._projectFilesManager.dispose();
+        this._pluginManager.dispose();
+        this._diagnosticsManager.dispose();
+        this._historyManager.dispose();
+        this._statusBarManager.dispose();
+        this._configManager.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+
+    private _cleanSolution() {
+        this._buildManager.cleanSolution();
+    }
+
+    private _regenerateSolution() {
+        this._buildManager.regenerateSolution();
+    }
+
+    private _generateSolution() {
+        this._buildManager.generateSolution();
+    }
+
+    private _startDebug(input?: LaunchProfileInput) {
+        this._debugManager.startDebug(this._getLaunchProfile(input));
+    }
+
+    private _startWithoutDebug(input?: LaunchProfileInput) {
+        this._debugManager.startWithoutDebug(this._getLaunchProfile(input));
+    }
+
+    private async _launchProject(input?: LaunchProfileInput) {
+        await this._debugManager.launchProject(this._getLaunchProfile(input));
+    }
+
+    private async _startMultiplayer(options: Partial<MultiplayerOptions>) {
+        const merged = { ...this._debugManager.getMultiplayerOptions(), ...options };
+        // 记住上次使用的多人游戏配置
+        await this._debugManager.saveMultiplayerOptions(merged);
+        this._debugManager.startMultiplayerSession(merged);
+    }
+
+    // 面板中尚未保存的修改也用于本次启动
+    private _getLaunchProfile(input?: LaunchProfileInput): LaunchProfile {
+        const activeProfile = this._debugManager.getActiveLaunchProfile();
+        return input ? { ...activeProfile, ...parseLaunchProfileInput(input) } : activeProfile;
+    }
+
+    private async _saveLaunchProfile(input: LaunchProfileInput) {
+        const activeProfile = this._debugManager.getActiveLaunchProfile();
+        const name = await vscode.window.showInputBox({
+            prompt: '启动配置名称',
+            value: activeProfile.name
+        });
+        if (!name) {
+            return;
+        }
+
+        await this._debugManager.saveLaunchProfile({ ...activeProfile, ...parseLaunchProfileInput(input), name });
+        vscode.window.showInformationMessage(`启动配置已保存: ${name}`);
+    }
+
+    private _packageProject(profile?: Partial<PackageProfile>) {
+        const activeProfile = this._packageManager.getActiveProfile();
+        this._packageManager.packageProject({ ...activeProfile, ...profile });
+    }
+
+    private _rerunHistory(id: string) {
+        const entry = this._historyManager.getEntry(id);
+        if (!entry) {
+            vscode.window.showErrorMessage('未找到历史记录');
+            return;
+        }
+
+        console.log('[UE Builder] Re-running history entry:', entry.label, entry.id);
+        // 历史记录中的钩子来自团队配置，未受信任的工作区中不执行
+        const request = vscode.workspace.isTrusted ? entry.request : { ...entry.request, hooks: undefined };
+        switch (entry.operation) {
+            case 'cleanSolution':
+                this._buildManager.cleanSolution(request, entry.cleanScopes);
+                break;
+            case 'build':
+            case 'regenerateSolution':
+            case 'generateSolution':
+            case 'generateClangDatabase':
+                this._buildManager[entry.operation](request);
+                break;
+            case 'startDebug':
+            case 'startWithoutDebug':
+                this._debugManager[entry.operation](entry.launchProfile, request);
+                break;
+            case 'startMultiplayer':
+                this._debugManager.startMultiplayerSession(entry.multiplayer, request);
+                break;
+            case 'discoverAutomationTests':
+                this._automationTestManager.discoverFromEditor(request);
+                break;
+            case 'runAutomationTests':
+                this._automationTestManager.runTests(entry.automationTests, request);
+                break;
+            case 'packageProject':
+                this._packageManager.packageProject(entry.profile, request);
+                break;
+            case 'buildPlugin':
+                this._pluginManager.buildPlugin(undefined, request, entry.plugin);
+                break;
+        }
+    }
+
+    private _onDidChangeConfiguration(event: vscode.ConfigurationChangeEvent) {
+        if (!event.affectsConfiguration('ueBuilder')) {
+            return;
+        }
+
+        console.log('[UE Builder] Configuration changed');
+        if (event.affectsConfiguration('ueBuilder.uePath') || event.affectsConfiguration('ueBuilder.projectPath')) {
+            if (this._writingPathSettings > 0) {
+                console.log('[UE Builder] Ignoring path settings written by refresh');
+                return;
+            }
+            this._refreshIfPathsChanged();
+            return;
+        }
+        if (event.affectsConfiguration('ueBuilder.buildConfiguration')
+            || event.affectsConfiguration('ueBuilder.buildTarget')
+            || event.affectsConfiguration('ueBuilder.platform')) {
+            this._configManager.reloadSettings();
+        }
+        if (event.affectsConfiguration('ueBuilder.packageProfiles') || event.affectsConfiguration('ueBuilder.activePackageProfile')) {
+            this._packageManager.sendProfiles();
+        }
+        if (event.affectsConfiguration('ueBuilder.launchProfiles') || event.affectsConfiguration('ueBuilder.activeLaunchProfile')) {
+            this._debugManager.sendLaunchProfiles();
+        }
+        if (event.affectsConfiguration('ueBuilder.multiplayer')) {
+            this._debugManager.sendMultiplayerOptions();
+        }
+        if (event.affectsConfiguration('ueBuilder.cleanScopes') || event.affectsConfiguration('ueBuilder.cleanUseTrash')) {
+            this._buildManager.sendCleanScopes();
+        }
+    }
+
+    // 文件监视和合并由 ProjectFilesManager 负责，这里只处理 Build.cs / Target.cs 的变更
+    private async _onProjectFilesChanged(event: ProjectFilesChangeEvent) {
+        const buildFiles = event.files.filter(file => /\.(Build|Target)\.cs$/.test(file));
+        if (buildFiles.length === 0) {
+            return;
+        }
+
+        console.log('[UE Builder] Build files changed:', buildFiles.join(', '));
+        if (buildFiles.some(file => file.endsWith('.Target.cs'))) {
+            await this._refresh();
+        }
+        if (event.status.stale) {
+            await this._promptRegenerateProjectFiles(buildFiles.length === 1 ? path.basename(buildFiles[0]) : `${buildFiles.length} 个文件`);
+        }
     }
 
-    private async _regenerateSolution() {
-        await this._buildManager.regenerateSolution();
+    private async _promptRegenerateProjectFiles(fileName: string) {
+        const config = vscode.workspace.getConfiguration('ueBuilder');
+        if (this._buildFilePromptVisible || !config.get<boolean>('promptRegenerateProjectFiles', true)) {
+            return;
+        }
+
+        const generateClangDatabase = this._configManager.getSetting('generateClangDatabase', false);
+        const actions = generateClangDatabase ? ['重新生成项目文件'] : ['重新生成项目文件', '生成 compile_commands.json'];
+        this._buildFilePromptVisible = true;
+        const selection = await vscode.window.showInformationMessage(
+            `检测到 ${fileName} 已修改，是否重新生成项目文件以更新 IntelliSense？`,
+            ...actions,
+            '不再提示'
+        );
+        this._buildFilePromptVisible = false;
+
+        if (selection === '重新生成项目文件') {
+            this._buildManager.generateSolution();
+        } else if (selection === '生成 compile_commands.json') {
+            this._buildManager.generateClangDatabase();
+        } else if (selection === '不再提示') {
+            await config.update('promptRegenerateProjectFiles', false, vscode.ConfigurationTarget.Workspace);
+        }
     }
 
-    private async _generateSolution() {
-        await this._buildManager.generateSolution();
+    private _sendJobs(jobs: JobInfo[]) {
+        this._view?.webview.postMessage({
+            type: 'jobs',
+            jobs,
+            hasActiveJobs: this._jobRunner.hasActiveJobs()
+        });
+    }
+
+    private async _savePackageProfile(profile: Partial<PackageProfile>) {
+        const activeProfile = this._packageManager.getActiveProfile();
+        const name = await vscode.window.showInputBox({
+            prompt: '打包配置方案名称',
+            value: activeProfile.name
+        });
+        if (!name) {
+            return;
+        }
+
+        await this._packageManager.saveProfile({ ...activeProfile, ...profile, name });
+        vscode.window.showInformationMessage(`打包配置方案已保存: ${name}`);
     }
 
-    private async _startDebug() {
-        await this._debugManager.startDebug();
+    private async _setBuildConfiguration(buildConfiguration: string) {
+        console.log('[UE Builder] Build configuration selected:', buildConfiguration);
+        await this._configManager.setBuildConfiguration(buildConfiguration);
+
+        const validation = this._configManager.validateConfiguration();
+        if (!validation.valid) {
+            vscode.window.showWarningMessage(validation.error || '编译配置不可用');
+        }
     }
 
-    private async _startWithoutDebug() {
-        await this._debugManager.startWithoutDebug();
+    private async _setBuildTarget(buildTarget: string) {
+        console.log('[UE Builder] Build target selected:', buildTarget);
+        await this._configManager.setBuildTarget(buildTarget);
+
+        const validation = this._configManager.validateConfiguration();
+        if (!validation.valid) {
+            vscode.window.showWarningMessage(validation.error || '编译配置不可用');
+        }
     }
 
-    private async _launchProject() {
-        await this._debugManager.launchProject();
+    private async _setPlatform(platform: string) {
+        console.log('[UE Builder] Platform selected:', platform);
+        await this._configManager.setPlatform(platform);
+
+        const validation = this._configManager.validatePlatform();
+        if (!validation.valid) {
+            vscode.window.showWarningMessage(validation.error || '目标平台不可用');
+        }
     }
 
     private async _redetectProject() {
@@ -137,6 +607,7 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
 
         console.log('[UE Builder] Manual redetection requested');
         this._projectDetected = false;
+        await this._projectManager.discoverProjects();
         await this._refresh();
     }
 
@@ -149,17 +620,26 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
     }
 
     private async _refresh() {
-        if (!this._view) {
-            console.log('[UE Builder] _refresh: view is not available');
-            return;
-        }
-
         console.log('[UE Builder] _refresh called');
         
-        const config = vscode.workspace.getConfiguration('ueBuilder');
-        let uePath = config.get<string>('uePath', '');
-        let projectPath = config.get<string>('projectPath', '');
-        const buildConfiguration = config.get<string>('buildConfiguration', 'Development');
+        const teamConfigError = this._configManager.loadTeamConfig(this._projectManager.getActiveFolder()?.uri);
+        this._refreshedPathSettings = this._getPathSettings();
+        if (teamConfigError) {
+            this._showTeamConfigWarning(`团队配置加载失败: ${teamConfigError}`);
+        }
+        const teamConfigWarnings = this._configManager.getTeamConfigWarnings();
+        if (teamConfigWarnings.length > 0) {
+            this._showTeamConfigWarning(`团队配置中的变量未定义，已忽略以下设置: ${teamConfigWarnings.join('; ')}`);
+        }
+        if (this._configManager.getTeamConfig().hooks && !vscode.workspace.isTrusted) {
+            this._showTeamConfigWarning('工作区未受信任，不会执行团队配置中的钩子命令');
+        }
+
+        let uePath = this._configManager.getSetting('uePath', '');
+        let projectPath = this._configManager.getSetting('projectPath', '');
+        const buildConfiguration = this._configManager.getSetting('buildConfiguration', 'Development');
+        const buildTarget = this._configManager.getSetting('buildTarget', '');
+        const platform = this._configManager.getSetting('platform', '');
 
         console.log('[UE Builder] Read config - uePath:', uePath);
         console.log('[UE Builder] Read config - projectPath:', projectPath);
@@ -168,7 +648,7 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
         if (!projectPath) {
             console.log('[UE Builder] projectPath is empty, attempting auto-detection');
             
-            this._view.webview.postMessage({
+            this._view?.webview.postMessage({
                 type: 'update',
                 uePath,
                 projectPath: '检测中...',
@@ -177,7 +657,7 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
 
             this._isDetecting = true;
             
-            const detectedProjectPath = await findUEProjectGlobally();
+            const detectedProjectPath = await this._findDefaultProject();
             this._isDetecting = false;
 
             console.log('[UE Builder] Global detection result:', detectedProjectPath);
@@ -188,11 +668,10 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
                 console.log('[UE Builder] Saving projectPath to Workspace config:', projectPath);
                 
                 try {
-                    await vscode.workspace.getConfiguration('ueBuilder').update('projectPath', projectPath, vscode.ConfigurationTarget.Workspace);
+                    await this._writePathSetting(() => this._projectManager.setActiveProject(projectPath));
                     console.log('[UE Builder] Save completed');
                     
-                    const updatedConfig = vscode.workspace.getConfiguration('ueBuilder');
-                    const reReadProjectPath = updatedConfig.get<string>('projectPath', '');
+                    const reReadProjectPath = this._projectManager.getConfiguredProjectPath();
                     console.log('[UE Builder] Re-read projectPath after save:', reReadProjectPath);
                     console.log('[UE Builder] projectPath match:', reReadProjectPath === projectPath);
                     
@@ -208,8 +687,7 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
                 if (!this._detectionInterval && !this._projectDetected) {
                     this._detectionInterval = setInterval(async () => {
                         console.log('[UE Builder] Continuous detection - checking for project...');
-                        const config = vscode.workspace.getConfiguration('ueBuilder');
-                        const currentProjectPath = config.get<string>('projectPath', '');
+                        const currentProjectPath = this._projectManager.getConfiguredProjectPath();
                         
                         if (currentProjectPath) {
                             console.log('[UE Builder] Project already detected, stopping continuous detection');
@@ -219,19 +697,19 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
                             return;
                         }
                         
-                        const detectedPath = await findUEProjectGlobally();
+                        const detectedPath = await this._findDefaultProject();
                         if (detectedPath) {
                             console.log('[UE Builder] Project found during continuous detection:', detectedPath);
                             this._stopDetection();
                             this._projectDetected = true;
                             
                             try {
-                                await vscode.workspace.getConfiguration('ueBuilder').update('projectPath', detectedPath, vscode.ConfigurationTarget.Workspace);
+                                await this._projectManager.setActiveProject(detectedPath);
                             } catch (error) {
                                 console.error('[UE Builder] Error saving projectPath:', error);
                             }
                             
-                            this._refresh();
+                            this._refreshIfPathsChanged();
                         }
                     }, 5000);
                 }
@@ -240,21 +718,113 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
             console.log('[UE Builder] projectPath already set:', projectPath);
             this._projectDetected = true;
             this._stopDetection();
+            if (this._projectManager.getProjects().length === 0) {
+                await this._projectManager.discoverProjects();
+            }
+        }
+
+        await this._engineManager.discover();
+        if (!uePath && projectPath) {
+            const engines = this._engineManager.getEngines();
+            const engine = this._engineManager.findEngineForProject(projectPath) || engines[0];
+            if (engine) {
+                uePath = this._engineManager.getEditorPath(engine);
+                console.log('[UE Builder] Auto-selected engine:', uePath);
+                try {
+                    await this._writePathSetting(() => vscode.workspace.getConfiguration('ueBuilder').update('uePath', uePath, vscode.ConfigurationTarget.Workspace));
+                } catch (error) {
+                    console.error('[UE Builder] Error saving uePath:', error);
+                }
+            }
         }
+        this._refreshedPathSettings = this._getPathSettings();
+
+        const targets = projectPath ? await discoverTargets(path.dirname(projectPath)) : [];
+        console.log('[UE Builder] Discovered targets:', targets.map(target => `${target.name} (${target.type})`).join(', '));
 
         this._configManager.updateConfig({
             uePath,
             projectPath,
-            buildConfiguration
+            buildConfiguration,
+            buildTarget,
+            platform
         });
+        this._configManager.setTargets(targets);
+        vscode.commands.executeCommand('setContext', 'ueBuilder.hasProject', !!projectPath);
 
         console.log('[UE Builder] Sending update message - projectPath:', projectPath);
-        this._view.webview.postMessage({
+        this._view?.webview.postMessage({
             type: 'update',
             uePath,
             projectPath,
-            buildConfiguration
+            buildConfiguration,
+            configurations: this._configManager.getConfigurations(),
+            buildTarget: this._configManager.getActiveTarget().name,
+            targets,
+            platform: this._configManager.getPlatform(),
+            platforms: TARGET_PLATFORMS
+                .filter(info => info.hosts.includes(getHostPlatform().name))
+                .map(info => info.name)
         });
+        this._packageManager.sendProfiles();
+        this._debugManager.sendLaunchProfiles();
+        this._debugManager.sendMultiplayerOptions();
+        this._engineManager.sendEngines();
+        this._engineManager.checkEngineAssociation();
+        this._projectFilesManager.sendStatus();
+        this._buildManager.sendCleanScopes();
+        this._projectManager.sendProjects(projectPath);
+        this._projectManager.sendActiveFileProject(vscode.window.activeTextEditor, projectPath);
+        this._sendJobs(this._jobRunner.getJobs());
+        await this._historyManager.load();
+        this._historyManager.sendHistory();
+    }
+
+    private _getPathSettings(): string {
+        return [
+            this._projectManager.getActiveFolder()?.uri.toString(),
+            this._configManager.getSetting('uePath', ''),
+            this._configManager.getSetting('projectPath', '')
+        ].join('|');
+    }
+
+    private async _writePathSetting(write: () => Thenable<void>) {
+        this._writingPathSettings++;
+        try {
+            await write();
+        } finally {
+            this._writingPathSettings--;
+        }
+    }
+
+    // 选择引擎或项目后，配置变更事件通常已经触发了刷新，设置未变化时无需刷新
+    private _refreshIfPathsChanged() {
+        if (this._getPathSettings() !== this._refreshedPathSettings) {
+            this._refresh();
+        }
+    }
+
+    // 刷新很频繁，按配置文件及其修改时间记录已显示的警告，文件修改后才再次提示
+    private _showTeamConfigWarning(message: string) {
+        const file = this._configManager.getTeamConfigFile();
+        let modified = 0;
+        try {
+            modified = file ? fs.statSync(file).mtimeMs : 0;
+        } catch {
+            // 文件在加载后被删除，下次刷新时不再有警告
+        }
+
+        const key = `${file}|${modified}|${message}`;
+        if (this._shownTeamConfigWarnings.has(key)) {
+            return;
+        }
+        this._shownTeamConfigWarnings.add(key);
+        vscode.window.showWarningMessage(message);
+    }
+
+    private async _findDefaultProject(): Promise<string | null> {
+        await this._projectManager.discoverProjects();
+        return this._projectManager.findDefaultProject()?.path || null;
     }
 
     private async _getHtmlForWebview(webview: vscode.Webview) {
@@ -269,13 +839,14 @@ class UEBuilderPanelProvider implements vscode.WebviewViewProvider {
 }
 
 async function selectUEPath() {
+    const platform = getHostPlatform();
     const uePath = await vscode.window.showOpenDialog({
         canSelectFiles: true,
         canSelectFolders: false,
         canSelectMany: false,
-        filters: {
-            'UE5 Editor': ['exe']
-        },
+        filters: platform.editorFileExtensions.length > 0 ? {
+            'UE5 Editor': platform.editorFileExtensions
+        } : undefined,
         title: 'Select UE5 Editor'
     });
 
@@ -286,7 +857,7 @@ async function selectUEPath() {
     }
 }
 
-async function selectProjectPath() {
+async function selectProjectPath(projectManager: ProjectManager) {
     const projectPath = await vscode.window.showOpenDialog({
         canSelectFiles: true,
         canSelectFolders: false,
@@ -299,38 +870,11 @@ async function selectProjectPath() {
 
     if (projectPath && projectPath[0]) {
         const selectedPath = projectPath[0].fsPath;
-        await vscode.workspace.getConfiguration('ueBuilder').update('projectPath', selectedPath, vscode.ConfigurationTarget.Workspace);
+        await projectManager.setActiveProject(selectedPath);
         vscode.window.showInformationMessage(`UE Project path set to: ${selectedPath}`);
     }
 }
 
-async function findUEProjectGlobally(): Promise<string | null> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-        return null;
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-
-    try {
-        const { stdout } = await execAsync(`dir /s /b "${workspaceRoot}\\*.uproject"`, { 
-            maxBuffer: 1024 * 1024 * 10 
-        });
-        
-        const projects = stdout.split('\n').filter(line => line.trim().length > 0);
-        
-        if (projects.length === 1) {
-            return projects[0].trim();
-        } else if (projects.length > 1) {
-            return projects[0].trim();
-        }
-    } catch (error) {
-        console.error('[UE Builder] Error searching for UE project:', error);
-    }
-
-    return null;
-}
-
 export function deactivate() {
     console.log('UE Builder extension is now deactivated');
 }
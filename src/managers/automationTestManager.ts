@@ -0,0 +1,402 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigManager } from './configManager';
+import { BuildRequest } from '../core/buildRequest';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { BuildManager } from './buildManager';
+import { HistoryManager, HistoryOperation, HistoryRecorder, HistoryStartOptions } from './historyManager';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { getDefaultTarget, getEditorExecutablePath } from '../utils/projectTargets';
+import { Job, JobCancelledError, JobContext, JobRunner, ProcessExitError } from '../utils/jobRunner';
+import { resolveSourcePath } from '../utils/sourcePaths';
+import {
+    AutomationTestDefinition,
+    AutomationTestResult,
+    findAutomationTestsInSource,
+    getAutomationListArgs,
+    getAutomationRunArgs,
+    parseAutomationListOutput,
+    parseAutomationReport
+} from '../utils/automationTests';
+
+// 快速过滤不包含测试宏的源文件
+const TEST_MACRO_MARKERS = ['AUTOMATION_TEST', 'DEFINE_SPEC'];
+
+export class AutomationTestManager implements vscode.Disposable {
+    private _controller: vscode.TestController;
+    private _configManager: ConfigManager;
+    private _diagnosticsManager: DiagnosticsManager;
+    private _buildManager: BuildManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+    private _projectDir?: string;
+    private _lastFailed: string[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(configManager: ConfigManager, diagnosticsManager: DiagnosticsManager, buildManager: BuildManager, jobRunner: JobRunner, historyManager: HistoryManager) {
+        this._configManager = configManager;
+        this._diagnosticsManager = diagnosticsManager;
+        this._buildManager = buildManager;
+        this._jobRunner = jobRunner;
+        this._historyManager = historyManager;
+
+        this._controller = vscode.tests.createTestController('ueAutomation', 'UE Automation');
+        this._controller.resolveHandler = async item => {
+            if (!item) {
+                await this.discoverFromSource();
+            }
+        };
+        this._controller.refreshHandler = () => this.discoverFromSource();
+        this._controller.createRunProfile('运行', vscode.TestRunProfileKind.Run, (request, token) => this._runHandler(request, token), true);
+
+        this._disposables.push(
+            this._controller,
+            this._configManager.onDidChangeConfig(() => {
+                // 切换项目后清空测试树，下次展开时重新发现
+                if (this._projectDir && this._projectDir !== this._getProjectDir()) {
+                    this._controller.items.replace([]);
+                    this._lastFailed = [];
+                    this.discoverFromSource();
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+
+    public async discoverFromSource() {
+        const projectDir = this._getProjectDir();
+        this._projectDir = projectDir;
+        if (!projectDir) {
+            return;
+        }
+
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(vscode.Uri.file(projectDir), '{Source,Plugins}/**/*.{cpp,h}'));
+        const tests: AutomationTestDefinition[] = [];
+        for (const file of files) {
+            try {
+                const content = await fs.promises.readFile(file.fsPath, 'utf8');
+                if (TEST_MACRO_MARKERS.some(marker => content.includes(marker))) {
+                    tests.push(...findAutomationTestsInSource(content, file.fsPath));
+                }
+            } catch (error) {
+                console.error('[AutomationTestManager] Error reading source file:', file.fsPath, error);
+            }
+        }
+
+        console.log(`[AutomationTestManager] Found ${tests.length} automation tests in source`);
+        this._controller.items.replace([]);
+        tests.forEach(test => this._addTest(test));
+    }
+
+    // 通过编辑器的 Automation List 发现测试，包含引擎和插件中的测试
+    public discoverFromEditor(request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
+        }
+        const buildRequest = request;
+
+        return this._enqueue('discoverAutomationTests', '发现自动化测试', buildRequest, {}, async (context, log) => {
+            log.appendLine('--- 编译项目 ---');
+            await this._buildManager.compile(context, buildRequest, log, [5, 50]);
+
+            context.progress(50, '正在列出测试...');
+            log.appendLine('--- 列出测试 ---');
+            const program = this._getProgram(buildRequest);
+            const args = getAutomationListArgs(buildRequest.config.projectPath);
+            log.appendLine(`执行命令: ${getHostPlatform().formatCommand(program, args)}`);
+
+            let output = '';
+            await context.runProcess(program, args, {
+                cwd: buildRequest.projectDir,
+                onOutput: text => {
+                    output += text;
+                    log.append(text);
+                }
+            });
+
+            const tests = parseAutomationListOutput(output);
+            log.appendLine(`发现 ${tests.length} 个测试`);
+            tests.forEach(test => this._addTest(test));
+            this._projectDir = buildRequest.projectDir;
+        });
+    }
+
+    public runTests(testPaths?: string[], request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        const items = testPaths
+            ? testPaths.map(testPath => this._getOrCreateItem(testPath))
+            : this._getItems(this._controller.items);
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('没有可运行的自动化测试');
+            return undefined;
+        }
+
+        const run = this._controller.createTestRun(new vscode.TestRunRequest(items));
+        return this._enqueueRun(items, [], run, request);
+    }
+
+    public rerunFailedTests(): Job | undefined {
+        if (this._lastFailed.length === 0) {
+            vscode.window.showInformationMessage('上次运行没有失败的测试');
+            return undefined;
+        }
+        return this.runTests(this._lastFailed);
+    }
+
+    private _runHandler(testRequest: vscode.TestRunRequest, token: vscode.CancellationToken) {
+        const items = testRequest.include ? [...testRequest.include] : this._getItems(this._controller.items);
+        const excluded = testRequest.exclude ? [...testRequest.exclude] : [];
+        const run = this._controller.createTestRun(testRequest);
+        const job = this._enqueueRun(items, excluded, run, this._createRequest());
+        if (job) {
+            token.onCancellationRequested(() => this._jobRunner.cancel(job.info.id));
+        }
+    }
+
+    private _enqueueRun(items: vscode.TestItem[], excluded: vscode.TestItem[], run: vscode.TestRun, request: BuildRequest | undefined): Job | undefined {
+        if (!request) {
+            run.end();
+            return undefined;
+        }
+        const buildRequest = request;
+
+        // 排除了部分子项时只能逐个运行剩余的测试，否则按前缀运行整个分组
+        const excludedIds = new Set(excluded.map(item => item.id));
+        const testItems = excludedIds.size > 0
+            ? items.flatMap(item => this._getLeaves(item)).filter(item => !this._isExcluded(item, excludedIds))
+            : items;
+        const testPaths = testItems.map(item => item.id);
+        const leaves = testItems.flatMap(item => this._getLeaves(item));
+        leaves.forEach(item => run.enqueued(item));
+
+        const job = this._enqueue('runAutomationTests', '运行自动化测试', buildRequest, { automationTests: testPaths }, async (context, log) => {
+            try {
+                log.appendLine(`测试: ${testPaths.join(', ')}`);
+                log.appendLine('--- 编译项目 ---');
+                await this._buildManager.compile(context, buildRequest, log, [5, 40]);
+
+                context.progress(40, '正在运行测试...');
+                log.appendLine('--- 运行测试 ---');
+                leaves.forEach(item => run.started(item));
+                const results = await this._runAutomation(context, buildRequest, testPaths, run, log);
+                this._reportResults(results, leaves, run);
+
+                const failed = results.filter(result => result.state === 'failed');
+                this._lastFailed = failed.map(result => result.fullPath);
+                const passed = results.filter(result => result.state === 'passed').length;
+                log.appendLine(`测试结果: ${passed} 个通过, ${failed.length} 个失败`);
+                if (failed.length > 0) {
+                    throw new Error(`${failed.length} 个测试失败`);
+                }
+            } catch (error) {
+                if (error instanceof JobCancelledError) {
+                    leaves.forEach(item => run.skipped(item));
+                }
+                throw error;
+            }
+        });
+
+        // 任务在开始前被取消时不会执行任务体，统一在任务结束后结束测试运行
+        job.done.catch(() => undefined).then(() => run.end());
+        return job;
+    }
+
+    private async _runAutomation(context: JobContext, request: BuildRequest, testPaths: string[], run: vscode.TestRun, log: HistoryRecorder): Promise<AutomationTestResult[]> {
+        const reportDir = path.join(request.projectDir, 'Saved', 'Automation', 'UEBuilder');
+        await fs.promises.rm(reportDir, { recursive: true, force: true });
+
+        const program = this._getProgram(request);
+        const args = getAutomationRunArgs(request.config.projectPath, testPaths, reportDir);
+        log.appendLine(`执行命令: ${getHostPlatform().formatCommand(program, args)}`);
+
+        try {
+            await context.runProcess(program, args, {
+                cwd: request.projectDir,
+                onOutput: text => {
+                    log.append(text);
+                    // 测试输出面板是终端，需要 CRLF 换行
+                    run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+                }
+            });
+        } catch (error) {
+            // 有测试失败时编辑器以非零代码退出，仍然读取报告
+            if (!(error instanceof ProcessExitError) || !fs.existsSync(path.join(reportDir, 'index.json'))) {
+                throw error;
+            }
+        }
+
+        const reportFile = path.join(reportDir, 'index.json');
+        if (!fs.existsSync(reportFile)) {
+            throw new Error(`未生成测试报告: ${reportFile}`);
+        }
+        return parseAutomationReport(await fs.promises.readFile(reportFile, 'utf8'));
+    }
+
+    private _reportResults(results: AutomationTestResult[], leaves: vscode.TestItem[], run: vscode.TestRun) {
+        const reported = new Set<string>();
+        for (const result of results) {
+            const item = this._getOrCreateItem(result.fullPath);
+            reported.add(item.id);
+            switch (result.state) {
+                case 'passed':
+                    run.passed(item, result.duration);
+                    break;
+                case 'failed': {
+                    const messages = result.messages
+                        .filter(message => message.type === 'error')
+                        .map(message => this._createTestMessage(message.message, message.file, message.line));
+                    run.failed(item, messages.length > 0 ? messages : [new vscode.TestMessage('测试失败')], result.duration);
+                    break;
+                }
+                default:
+                    run.skipped(item);
+                    break;
+            }
+
+            for (const message of result.messages.filter(candidate => candidate.type === 'warning')) {
+                run.appendOutput(`[${result.fullPath}] Warning: ${message.message}\r\n`, this._createTestMessage(message.message, message.file, message.line).location, item);
+            }
+        }
+
+        // 没有出现在报告中的测试（例如尚未编译进二进制文件）
+        leaves.filter(item => !reported.has(item.id)).forEach(item => run.skipped(item));
+    }
+
+    private _createTestMessage(text: string, file?: string, line?: number): vscode.TestMessage {
+        const message = new vscode.TestMessage(text);
+        if (file) {
+            const resolved = resolveSourcePath(file, this._configManager.getProjectDir(), this._configManager.getEngineRoot()) || file;
+            const position = new vscode.Position(Math.max((line || 1) - 1, 0), 0);
+            message.location = new vscode.Location(vscode.Uri.file(resolved), position);
+        }
+        return message;
+    }
+
+    // 按 "." 分段创建层级，分组节点的 id 是路径前缀，可以直接传给 RunTests
+    private _addTest(test: AutomationTestDefinition) {
+        const uri = test.file ? vscode.Uri.file(test.file) : undefined;
+        let item = this._getOrCreateItem(test.fullPath, uri);
+        // uri 只能在创建时指定，先由 Automation List 创建的叶子节点需要替换
+        if (uri && !item.uri && item.children.size === 0) {
+            const replacement = this._controller.createTestItem(item.id, item.label, uri);
+            (item.parent ? item.parent.children : this._controller.items).add(replacement);
+            item = replacement;
+        }
+        if (test.line && item.uri) {
+            item.range = new vscode.Range(test.line - 1, 0, test.line - 1, 0);
+        }
+    }
+
+    private _getOrCreateItem(fullPath: string, uri?: vscode.Uri): vscode.TestItem {
+        const segments = fullPath.split('.');
+        let collection = this._controller.items;
+        let item: vscode.TestItem | undefined;
+        for (let index = 0; index < segments.length; index++) {
+            const id = segments.slice(0, index + 1).join('.');
+            let next = collection.get(id);
+            if (!next) {
+                next = this._controller.createTestItem(id, segments[index], index === segments.length - 1 ? uri : undefined);
+                collection.add(next);
+            }
+            item = next;
+            collection = next.children;
+        }
+        return item!;
+    }
+
+    private _getItems(collection: vscode.TestItemCollection): vscode.TestItem[] {
+        const items: vscode.TestItem[] = [];
+        collection.forEach(item => items.push(item));
+        return items;
+    }
+
+    private _getLeaves(item: vscode.TestItem): vscode.TestItem[] {
+        const children = this._getItems(item.children);
+        return children.length === 0 ? [item] : children.flatMap(child => this._getLeaves(child));
+    }
+
+    private _isExcluded(item: vscode.TestItem, excludedIds: Set<string>): boolean {
+        for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+            if (excludedIds.has(current.id)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private _getProjectDir(): string | undefined {
+        return this._configManager.getConfig().projectPath ? this._configManager.getProjectDir() : undefined;
+    }
+
+    private _getProgram(request: BuildRequest): string {
+        const program = getEditorExecutablePath(request.config.uePath, request.platform, request.config.buildConfiguration, true);
+        if (!fs.existsSync(program)) {
+            throw new Error(`可执行文件不存在: ${program}`);
+        }
+        return program;
+    }
+
+    // 自动化测试始终在主机平台上以 Editor 目标运行
+    private _createRequest(): BuildRequest | undefined {
+        const validation = this._configManager.validateConfig();
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '配置验证失败');
+            return undefined;
+        }
+
+        const request = this._configManager.createBuildRequest();
+        if (request.target.type !== 'Editor') {
+            request.target = this._configManager.getTargets().find(target => target.type === 'Editor') || getDefaultTarget(request.projectName);
+        }
+        if (!this._configManager.validateConfiguration(request.target, request.config.buildConfiguration).valid) {
+            request.config = { ...request.config, buildConfiguration: 'Development' };
+        }
+        request.platform = getHostPlatform().name;
+        return request;
+    }
+
+    private _enqueue(
+        operation: HistoryOperation,
+        label: string,
+        request: BuildRequest,
+        history: Partial<HistoryStartOptions>,
+        body: (context: JobContext, log: HistoryRecorder) => Promise<void>
+    ): Job {
+        const historyOptions: HistoryStartOptions = { ...history, operation, label, request };
+        return this._jobRunner.enqueue({
+            label: `${label} (${request.projectName} ${request.target.name} ${request.config.buildConfiguration})`,
+            kind: 'test',
+            expectedDuration: this._historyManager.getExpectedDuration(historyOptions),
+            run: async context => {
+                this._diagnosticsManager.begin(context.id, request.config.projectPath);
+
+                const log = this._historyManager.start(historyOptions);
+                log.appendLine(`=== ${label} ===`);
+                log.appendLine(`项目: ${request.projectName}`);
+                log.appendLine(`配置: ${request.config.buildConfiguration}`);
+                log.appendLine(`目标: ${request.target.name}`);
+
+                try {
+                    await body(context, log);
+                    context.progress(100, `${label}完成`);
+                    log.appendLine(`=== ${label}完成 ===`);
+                    log.finish(this._diagnosticsManager.finish(context.id));
+                } catch (error: any) {
+                    if (error instanceof JobCancelledError) {
+                        log.appendLine('=== 操作已取消 ===');
+                    } else {
+                        const errorMessage = error.message || String(error);
+                        log.appendLine(`${label}失败: ${errorMessage}`);
+                        vscode.window.showErrorMessage(`${label}失败: ${errorMessage}`);
+                    }
+                    log.finish(this._diagnosticsManager.finish(context.id), error);
+                    throw error;
+                }
+            }
+        });
+    }
+}
@@ -1,17 +1,30 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { spawn, exec } from 'child_process';
-import { ConfigManager, BuildConfig } from './configManager';
+import { Job, JobCancelledError, JobContext, JobRunner } from '../utils/jobRunner';
+import { BuildRequest } from '../core/buildRequest';
+import { CleanOptions, GenerateOptions, GenerateResult, ProgressRange, build, cleanSolution, compile, generateClangDatabase, generateSolution, regenerateSolution } from '../core/buildCore';
+import { ALL_PLUGINS_SCOPE, DEFAULT_CLEAN_SCOPES, formatSize, getCleanScopes, getCleanTargets, selectCleanScopes } from '../core/cleanScopes';
+import { ConfigManager } from './configManager';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { HistoryManager, HistoryOperation, HistoryRecorder, HistoryStartOptions } from './historyManager';
+import { ProjectFilesManager } from './projectFilesManager';
+
+type BuildJobBody = (context: JobContext, log: HistoryRecorder) => Promise<void>;
 
 export class BuildManager {
-    private _buildProcess?: any;
-    private _isBuilding: boolean = false;
     private _view?: vscode.WebviewView;
     private _configManager: ConfigManager;
+    private _diagnosticsManager: DiagnosticsManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+    private _projectFilesManager: ProjectFilesManager;
 
-    constructor(configManager: ConfigManager, view?: vscode.WebviewView) {
+    constructor(configManager: ConfigManager, diagnosticsManager: DiagnosticsManager, jobRunner: JobRunner, historyManager: HistoryManager, projectFilesManager: ProjectFilesManager, view?: vscode.WebviewView) {
         this._configManager = configManager;
+        this._diagnosticsManager = diagnosticsManager;
+        this._jobRunner = jobRunner;
+        this._historyManager = historyManager;
+        this._projectFilesManager = projectFilesManager;
         this._view = view;
     }
 
@@ -20,407 +33,290 @@ export class BuildManager {
     }
 
     public isBuilding(): boolean {
-        return this._isBuilding;
+        return this._jobRunner.hasActiveJobsOfKind('build');
     }
 
     public cancelBuild() {
-        if (this._buildProcess) {
-            console.log('[BuildManager] Cancelling build process...');
-            try {
-                spawn('taskkill', ['/F', '/T', '/PID', String(this._buildProcess.pid)]);
-                
-                console.log('[BuildManager] Build process cancelled');
-                this._isBuilding = false;
-                this._buildProcess = undefined;
-                
-                if (this._view) {
-                    this._view.webview.postMessage({ type: 'buildCancelled' });
-                }
-                
-                vscode.window.showInformationMessage('操作已取消');
-            } catch (error) {
-                console.error('[BuildManager] Error cancelling build:', error);
-            }
+        if (this.isBuilding()) {
+            console.log('[BuildManager] Cancelling build jobs...');
+            this._jobRunner.cancelKind('build');
         }
     }
 
-    public async cleanSolution() {
-        if (this._isBuilding) {
-            vscode.window.showWarningMessage('已有操作正在进行中');
-            return;
+    public cleanSolution(request: BuildRequest | undefined = this._createRequest(), scopes: string[] = this._getCleanScopeSetting()): Job | undefined {
+        if (!request) {
+            return undefined;
         }
 
-        const config = this._configManager.getConfig();
-        const validation = this._configManager.validateConfig();
-        if (!validation.valid) {
-            vscode.window.showErrorMessage(validation.error || '配置验证失败');
-            return;
+        const options: CleanOptions = { scopes };
+        if (vscode.workspace.getConfiguration('ueBuilder').get<boolean>('cleanUseTrash', false)) {
+            options.remove = async directory => {
+                await vscode.workspace.fs.delete(vscode.Uri.file(directory), { recursive: true, useTrash: true });
+            };
         }
-
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-
-        this._isBuilding = true;
-        this._view?.webview.postMessage({ type: 'buildStarted' });
-
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
-        outputChannel.appendLine(`=== 清理解决方案 ===`);
-        outputChannel.appendLine(`项目: ${projectName}`);
-        outputChannel.appendLine(`路径: ${projectPath}`);
-
-        try {
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 10, message: '正在清理...' });
-            
-            outputChannel.appendLine('--- 删除 Intermediate 目录 ---');
-            const intermediateDir = path.join(projectDir, 'Intermediate');
-            if (fs.existsSync(intermediateDir)) {
-                outputChannel.appendLine(`删除: ${intermediateDir}`);
-                this._view?.webview.postMessage({ type: 'buildProgress', progress: 20, message: '正在删除 Intermediate...' });
-                await fs.promises.rm(intermediateDir, { recursive: true, force: true, maxRetries: 3 });
-            } else {
-                outputChannel.appendLine('Intermediate 目录不存在');
-            }
-            
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 40, message: '正在清理...' });
-
-            outputChannel.appendLine('--- 删除 Binaries 目录 ---');
-            const binariesDir = path.join(projectDir, 'Binaries');
-            if (fs.existsSync(binariesDir)) {
-                outputChannel.appendLine(`删除: ${binariesDir}`);
-                this._view?.webview.postMessage({ type: 'buildProgress', progress: 60, message: '正在删除 Binaries...' });
-                await fs.promises.rm(binariesDir, { recursive: true, force: true, maxRetries: 3 });
-            } else {
-                outputChannel.appendLine('Binaries 目录不存在');
-            }
-            
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 70, message: '正在清理...' });
-
-            outputChannel.appendLine('--- 删除 Saved/StagedBuilds 目录 ---');
-            const savedStagingDir = path.join(projectDir, 'Saved', 'StagedBuilds');
-            if (fs.existsSync(savedStagingDir)) {
-                outputChannel.appendLine(`删除: ${savedStagingDir}`);
-                this._view?.webview.postMessage({ type: 'buildProgress', progress: 85, message: '正在删除 StagedBuilds...' });
-                await fs.promises.rm(savedStagingDir, { recursive: true, force: true, maxRetries: 3 });
-            } else {
-                outputChannel.appendLine('Saved/StagedBuilds 目录不存在');
+        return this._enqueue('cleanSolution', '清理解决方案', request, async (context, log) => {
+            log.appendLine(`清理范围: ${scopes.join(', ')}${options.remove ? ' (移到回收站)' : ''}`);
+            try {
+                await cleanSolution(context, request, this._diagnosticsManager.createEventSink(context, log), options);
+            } finally {
+                this._projectFilesManager.check();
             }
-            
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 100, message: '正在清理...' });
-
-            outputChannel.appendLine('=== 清理完成 ===');
-            vscode.window.showInformationMessage('清理完成');
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            this._view?.webview.postMessage({ type: 'buildSuccess' });
-        } catch (error: any) {
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            
-            const errorMessage = error.message || String(error);
-            outputChannel.appendLine(`清理失败: ${errorMessage}`);
-            vscode.window.showErrorMessage('清理失败! 查看输出面板了解详情');
-            this._view?.webview.postMessage({ type: 'buildFailed', error: errorMessage });
-        }
+        }, { cleanScopes: scopes });
     }
 
-    public async regenerateSolution() {
-        if (this._isBuilding) {
-            vscode.window.showWarningMessage('已有操作正在进行中');
+    // 列出将删除的目录和大小，确认后再清理
+    public async previewClean(request: BuildRequest | undefined = this._createRequest(), scopes: string[] = this._getCleanScopeSetting()) {
+        if (!request) {
             return;
         }
 
-        const config = this._configManager.getConfig();
-        const validation = this._configManager.validateConfig();
-        if (!validation.valid) {
-            vscode.window.showErrorMessage(validation.error || '配置验证失败');
-            return;
-        }
-
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const solutionPath = this._configManager.getSolutionPath();
-        const buildConfiguration = config.buildConfiguration;
-
-        this._isBuilding = true;
-        this._view?.webview.postMessage({ type: 'buildStarted' });
-
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
-        outputChannel.appendLine(`=== 重新生成解决方案 ===`);
-        outputChannel.appendLine(`项目: ${projectName}`);
-        outputChannel.appendLine(`配置: ${buildConfiguration}`);
-
+        let summary: { lines: string[]; total: number };
         try {
-            await this._cleanSolutionInternal(outputChannel, projectDir);
-
-            outputChannel.appendLine('--- 删除现有解决方案文件 ---');
-            if (fs.existsSync(solutionPath)) {
-                outputChannel.appendLine(`删除: ${solutionPath}`);
-                fs.unlinkSync(solutionPath);
-            } else {
-                outputChannel.appendLine('解决方案文件不存在');
-            }
-
-            outputChannel.appendLine('--- 生成项目文件 ---');
-            await this._generateProjectFiles(config, outputChannel);
-
-            outputChannel.appendLine('--- 编译项目 ---');
-            await this._buildProject(config, outputChannel);
-
-            outputChannel.appendLine('=== 重新生成解决方案完成 ===');
-            vscode.window.showInformationMessage('重新生成解决方案完成');
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            this._view?.webview.postMessage({ type: 'buildSuccess' });
+            summary = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: '正在统计清理大小...' }, async () => {
+                const targets = await getCleanTargets(selectCleanScopes(await getCleanScopes(request.projectDir), scopes), true);
+                return {
+                    lines: targets.map(target => `${path.relative(request.projectDir, target.directory)}  ${formatSize(target.size || 0)}`),
+                    total: targets.reduce((sum, target) => sum + (target.size || 0), 0)
+                };
+            });
         } catch (error: any) {
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            
-            const errorMessage = error.message || String(error);
-            outputChannel.appendLine(`操作失败: ${errorMessage}`);
-            vscode.window.showErrorMessage('操作失败! 查看输出面板了解详情');
-            this._view?.webview.postMessage({ type: 'buildFailed', error: errorMessage });
+            vscode.window.showErrorMessage(`预览清理失败: ${error.message || String(error)}`);
+            return;
         }
-    }
 
-    public async generateSolution() {
-        if (this._isBuilding) {
-            vscode.window.showWarningMessage('已有操作正在进行中');
+        if (summary.lines.length === 0) {
+            vscode.window.showInformationMessage(`没有需要清理的目录 (${scopes.join(', ')})`);
             return;
         }
 
-        const config = this._configManager.getConfig();
-        const validation = this._configManager.validateConfig();
-        if (!validation.valid) {
-            vscode.window.showErrorMessage(validation.error || '配置验证失败');
-            return;
+        const useTrash = vscode.workspace.getConfiguration('ueBuilder').get<boolean>('cleanUseTrash', false);
+        const action = useTrash ? '移到回收站' : '永久删除';
+        const selection = await vscode.window.showWarningMessage(
+            `将${action} ${summary.lines.length} 个目录，共 ${formatSize(summary.total)}`,
+            { modal: true, detail: summary.lines.join('\n') },
+            action
+        );
+        if (selection === action) {
+            this.cleanSolution(request, scopes);
         }
+    }
 
-        const projectPath = config.projectPath;
+    public async selectCleanScopes() {
         const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const solutionPath = this._configManager.getSolutionPath();
-
-        this._isBuilding = true;
-        this._view?.webview.postMessage({ type: 'buildStarted' });
-
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
-        outputChannel.appendLine(`=== 生成解决方案 ===`);
-        outputChannel.appendLine(`项目: ${projectName}`);
+        const selected = this._getCleanScopeSetting();
+        const items = (await getCleanScopes(projectDir)).map(scope => ({
+            label: scope.id,
+            description: scope.label,
+            picked: selected.includes(scope.id) || (scope.kind === 'plugin' && selected.includes(ALL_PLUGINS_SCOPE))
+        }));
+        const picked = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: '选择清理解决方案时删除的范围' });
+        if (picked) {
+            await this.setCleanScopes(picked.map(item => item.label));
+        }
+    }
 
+    public async setCleanScopes(scopes: string[]) {
         try {
-            outputChannel.appendLine('--- 删除现有解决方案文件 ---');
-            if (fs.existsSync(solutionPath)) {
-                outputChannel.appendLine(`删除: ${solutionPath}`);
-                fs.unlinkSync(solutionPath);
-            } else {
-                outputChannel.appendLine('解决方案文件不存在');
-            }
-
-            outputChannel.appendLine('--- 生成项目文件 ---');
-            await this._generateProjectFiles(config, outputChannel);
-
-            outputChannel.appendLine('=== 生成解决方案完成 ===');
-            vscode.window.showInformationMessage('生成解决方案完成');
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            this._view?.webview.postMessage({ type: 'buildSuccess' });
-        } catch (error: any) {
-            this._isBuilding = false;
-            this._buildProcess = undefined;
-            
-            const errorMessage = error.message || String(error);
-            outputChannel.appendLine(`操作失败: ${errorMessage}`);
-            vscode.window.showErrorMessage('操作失败! 查看输出面板了解详情');
-            this._view?.webview.postMessage({ type: 'buildFailed', error: errorMessage });
+            await vscode.workspace.getConfiguration('ueBuilder').update('cleanScopes', scopes, vscode.ConfigurationTarget.Workspace);
+        } catch (error) {
+            console.error('[BuildManager] Error saving cleanScopes:', error);
         }
     }
 
-    private async _cleanSolutionInternal(outputChannel: vscode.OutputChannel, projectDir: string) {
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 10, message: '正在清理...' });
-        
-        outputChannel.appendLine('--- 清理中间文件 ---');
-        
-        const intermediateDir = path.join(projectDir, 'Intermediate');
-        if (fs.existsSync(intermediateDir)) {
-            outputChannel.appendLine(`删除: ${intermediateDir}`);
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 15, message: '正在删除 Intermediate...' });
-            await fs.promises.rm(intermediateDir, { recursive: true, force: true, maxRetries: 3 });
+    public async sendCleanScopes() {
+        const projectDir = this._configManager.getProjectDir();
+        if (!this._view || !projectDir) {
+            return;
         }
 
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 20, message: '正在清理...' });
+        const scopes = await getCleanScopes(projectDir);
+        this._view.webview.postMessage({
+            type: 'cleanScopes',
+            scopes: scopes.map(scope => ({ id: scope.id, label: scope.label })),
+            selected: this._getCleanScopeSetting(),
+            useTrash: vscode.workspace.getConfiguration('ueBuilder').get<boolean>('cleanUseTrash', false)
+        });
+    }
 
-        const binariesDir = path.join(projectDir, 'Binaries');
-        if (fs.existsSync(binariesDir)) {
-            outputChannel.appendLine(`删除: ${binariesDir}`);
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 25, message: '正在删除 Binaries...' });
-            await fs.promises.rm(binariesDir, { recursive: true, force: true, maxRetries: 3 });
+    public regenerateSolution(request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
         }
 
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 28, message: '正在清理...' });
+        const options = this._getGenerateOptions(request);
+        return this._enqueue('regenerateSolution', '重新生成解决方案', request, async (context, log) => {
+            const result = await this._runCore(context, () => regenerateSolution(context, request, this._diagnosticsManager.createEventSink(context, log), options));
+            this._projectFilesManager.check();
+            await this._updateIntelliSenseSettings(result, log);
+        });
+    }
 
-        const savedStagingDir = path.join(projectDir, 'Saved', 'StagedBuilds');
-        if (fs.existsSync(savedStagingDir)) {
-            outputChannel.appendLine(`删除: ${savedStagingDir}`);
-            await fs.promises.rm(savedStagingDir, { recursive: true, force: true, maxRetries: 3 });
+    public generateSolution(request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
         }
-        
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 30, message: '正在清理...' });
+
+        const options = this._getGenerateOptions(request);
+        return this._enqueue('generateSolution', '生成解决方案', request, async (context, log) => {
+            const result = await this._runCore(context, () => generateSolution(context, request, this._diagnosticsManager.createEventSink(context, log), options));
+            this._projectFilesManager.check();
+            await this._updateIntelliSenseSettings(result, log);
+        });
     }
 
-    private async _generateProjectFiles(config: BuildConfig, outputChannel: vscode.OutputChannel) {
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const ueEnginePath = config.uePath;
-        const engineRootDir = path.dirname(path.dirname(path.dirname(path.dirname(ueEnginePath))));
-        const ubtPath = path.join(engineRootDir, 'Engine', 'Build', 'BatchFiles', 'Build.bat');
+    public generateClangDatabase(request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
+        }
+
+        const compileCommandsDir = this._getCompileCommandsDir(request);
+        return this._enqueue('generateClangDatabase', '生成 compile_commands.json', request, async (context, log) => {
+            const compileCommandsPath = await this._runCore(context, () => generateClangDatabase(context, request, this._diagnosticsManager.createEventSink(context, log), compileCommandsDir, [10, 100]));
+            await this._updateIntelliSenseSettings({ compileCommandsPath }, log);
+        });
+    }
 
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 35, message: '正在生成项目文件...' });
+    // 项目文件过期时根据 updateProjectFilesBeforeBuild 设置先生成项目文件
+    public async build(request: BuildRequest | undefined = this._createRequest()): Promise<Job | undefined> {
+        if (!request) {
+            return undefined;
+        }
 
-        if (!fs.existsSync(ubtPath)) {
-            throw new Error(`Build.bat not found at: ${ubtPath}`);
+        const updateProjectFiles = await this._projectFilesManager.confirmUpdateBeforeBuild(request.config.projectPath);
+        if (updateProjectFiles === undefined) {
+            return undefined;
         }
 
-        outputChannel.appendLine(`执行: ${ubtPath}`);
-        outputChannel.appendLine(`参数: ${projectName}Editor Win64 Development -Project="${projectPath}" -WaitMutex -FromMsBuild -architecture=x64 -GenerateProjectFiles`);
-        
-        await this._executeProcess(ubtPath, [`${projectName}Editor`, 'Win64', 'Development', `-Project="${projectPath}"`, '-WaitMutex', '-FromMsBuild', '-architecture=x64', '-GenerateProjectFiles'], projectDir, outputChannel);
-        
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 60, message: '正在生成项目文件...' });
+        const options = updateProjectFiles ? this._getGenerateOptions(request) : undefined;
+        return this._enqueue('build', '编译', request, async (context, log) => {
+            if (options) {
+                log.appendLine('项目文件已过期，编译前重新生成项目文件');
+            }
+            const result = await this._runCore(context, () => build(context, request, this._diagnosticsManager.createEventSink(context, log), options));
+            if (options) {
+                this._projectFilesManager.check();
+                await this._updateIntelliSenseSettings(result, log);
+            }
+        });
     }
 
-    private async _buildProject(config: BuildConfig, outputChannel: vscode.OutputChannel) {
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const buildConfiguration = config.buildConfiguration;
+    public async compile(context: JobContext, request: BuildRequest, log: HistoryRecorder, progressRange: ProgressRange = [0, 100]) {
+        await this._runCore(context, () => compile(context, request, this._diagnosticsManager.createEventSink(context, log), progressRange));
+    }
 
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 65, message: '正在编译...' });
+    private _createRequest(): BuildRequest | undefined {
+        const validation = this._configManager.validateConfig();
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '配置验证失败');
+            return undefined;
+        }
+        return this._configManager.createBuildRequest();
+    }
 
-        const ueEnginePath = config.uePath;
-        const engineRootDir = path.dirname(path.dirname(path.dirname(path.dirname(ueEnginePath))));
-        const buildBatPath = path.join(engineRootDir, 'Engine', 'Build', 'BatchFiles', 'Build.bat');
+    private _getGenerateOptions(request: BuildRequest): GenerateOptions {
+        return {
+            vscodeProject: this._configManager.getSetting('generateVSCodeProject', false),
+            compileCommandsDir: this._configManager.getSetting('generateClangDatabase', false) ? this._getCompileCommandsDir(request) : undefined
+        };
+    }
 
-        if (!fs.existsSync(buildBatPath)) {
-            throw new Error(`Build.bat not found at: ${buildBatPath}`);
-        }
+    private _getCleanScopeSetting(): string[] {
+        const scopes = vscode.workspace.getConfiguration('ueBuilder').get<string[]>('cleanScopes', DEFAULT_CLEAN_SCOPES);
+        return scopes.length > 0 ? scopes : DEFAULT_CLEAN_SCOPES;
+    }
 
-        outputChannel.appendLine(`执行: ${buildBatPath}`);
-        outputChannel.appendLine(`参数: ${projectName}Editor Win64 ${buildConfiguration} -Project="${projectPath}" -WaitMutex -FromMsBuild -architecture=x64`);
-        
-        await this._executeProcess(buildBatPath, [`${projectName}Editor`, 'Win64', buildConfiguration, `-Project="${projectPath}"`, '-WaitMutex', '-FromMsBuild', '-architecture=x64'], projectDir, outputChannel);
-        
-        this._view?.webview.postMessage({ type: 'buildProgress', progress: 100, message: '正在编译...' });
+    private _getCompileCommandsDir(request: BuildRequest): string {
+        // 留空时输出到项目目录，相对路径基于项目目录
+        const compileCommandsDir = this._configManager.getSetting('compileCommandsDir', '');
+        return path.resolve(request.projectDir, compileCommandsDir);
     }
 
-    private async _executeProcess(executable: string, args: string[], cwd: string, outputChannel: vscode.OutputChannel): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            let childProcess: any;
-            
-            if (executable.endsWith('.bat')) {
-                const quotedExecutable = `"${executable}"`;
-                const quotedArgs = args.map(arg => arg.includes(' ') ? `"${arg}"` : arg);
-                const command = `${quotedExecutable} ${quotedArgs.join(' ')}`;
-                
-                outputChannel.appendLine(`执行命令: ${command}`);
-                
-                childProcess = exec(command, { 
-                    cwd: cwd,
-                    windowsHide: true,
-                    maxBuffer: 1024 * 1024 * 10
-                });
-            } else {
-                childProcess = spawn(executable, args, { 
-                    cwd: cwd,
-                    shell: false,
-                    windowsHide: true
-                });
-            }
-            
-            this._buildProcess = childProcess;
-
-            let stdout = '';
-            let stderr = '';
-            let currentProgress = 0;
-            let startTime = Date.now();
-            let estimatedDuration = 300000; // 默认5分钟
-
-            this._buildProcess.stdout?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stdout += text;
-                outputChannel.append(text);
-
-                const progress = this._parseProgress(text);
-                if (progress > currentProgress) {
-                    currentProgress = progress;
-                    if (this._view) {
-                        this._view.webview.postMessage({ 
-                            type: 'buildProgress', 
-                            progress: currentProgress,
-                            message: this._getProgressMessage(text, currentProgress)
-                        });
+    private _enqueue(operation: HistoryOperation, label: string, request: BuildRequest, body: BuildJobBody, options: Partial<HistoryStartOptions> = {}): Job {
+        const historyOptions: HistoryStartOptions = { ...options, operation, label, request };
+        return this._jobRunner.enqueue({
+            label: `${label} (${request.projectName} ${request.target.name} ${request.platform} ${request.config.buildConfiguration})`,
+            kind: 'build',
+            expectedDuration: this._historyManager.getExpectedDuration(historyOptions),
+            run: async context => {
+                this._diagnosticsManager.begin(context.id, request.config.projectPath);
+                this._view?.webview.postMessage({ type: 'buildStarted', jobId: context.id });
+
+                const log = this._historyManager.start(historyOptions);
+                log.appendLine(`=== ${label} ===`);
+                log.appendLine(`项目: ${request.projectName}`);
+                log.appendLine(`配置: ${request.config.buildConfiguration}`);
+                log.appendLine(`目标: ${request.target.name}`);
+                log.appendLine(`平台: ${request.platform}`);
+
+                try {
+                    await body(context, log);
+                    if (context.isCancelled()) {
+                        throw new JobCancelledError(context.label);
                     }
-                } else if (currentProgress > 0 && currentProgress < 100) {
-                    // 如果没有明确的进度，基于时间估算
-                    const elapsed = Date.now() - startTime;
-                    const estimatedProgress = Math.min(95, 40 + (elapsed / estimatedDuration) * 55);
-                    if (estimatedProgress > currentProgress) {
-                        currentProgress = estimatedProgress;
-                        if (this._view) {
-                            this._view.webview.postMessage({ 
-                                type: 'buildProgress', 
-                                progress: currentProgress,
-                                message: this._getProgressMessage(text, currentProgress)
-                            });
-                        }
+
+                    log.appendLine(`=== ${label}完成 ===`);
+                    log.finish(this._diagnosticsManager.finish(context.id));
+                    vscode.window.showInformationMessage(`${label}完成`);
+                    this._view?.webview.postMessage({ type: 'buildSuccess', jobId: context.id });
+                } catch (error: any) {
+                    if (error instanceof JobCancelledError) {
+                        log.appendLine('=== 操作已取消 ===');
+                        vscode.window.showInformationMessage('操作已取消');
+                        this._view?.webview.postMessage({ type: 'buildCancelled', jobId: context.id });
+                    } else {
+                        const errorMessage = error.message || String(error);
+                        log.appendLine(`${label}失败: ${errorMessage}`);
+                        vscode.window.showErrorMessage(`${label}失败! 查看输出面板了解详情`);
+                        this._view?.webview.postMessage({ type: 'buildFailed', jobId: context.id, error: errorMessage });
                     }
+                    log.finish(this._diagnosticsManager.finish(context.id), error);
+                    throw error;
                 }
-            });
-
-            this._buildProcess.stderr?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stderr += text;
-                outputChannel.append(text);
-            });
+            }
+        });
+    }
 
-            this._buildProcess.on('close', (code: number) => {
-                this._buildProcess = undefined;
-                
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(`进程退出，代码: ${code}\n${stderr}`));
-                }
-            });
+    private async _updateIntelliSenseSettings(result: GenerateResult, log: HistoryRecorder) {
+        const { compileCommandsPath } = result;
+        if (!compileCommandsPath) {
+            return;
+        }
 
-            this._buildProcess.on('error', (error: Error) => {
-                this._buildProcess = undefined;
-                reject(error);
-            });
-        });
+        const outputDir = path.dirname(compileCommandsPath);
+        const clangdArgs = (vscode.workspace.getConfiguration('clangd').get<string[]>('arguments') || []).filter(arg => !arg.startsWith('--compile-commands-dir'));
+        await this._updateIntelliSenseSetting('clangd', 'arguments', [...clangdArgs, `--compile-commands-dir=${outputDir}`], log);
+        await this._updateIntelliSenseSetting('C_Cpp', 'default.compileCommands', compileCommandsPath, log);
     }
 
-    private _parseProgress(text: string): number {
-        const match = text.match(/(\d+)%/);
-        if (match) {
-            return parseInt(match[1], 10);
+    // 对应的扩展未安装时设置未注册（没有默认值），更新会抛出异常，因此逐项更新并跳过未注册的设置
+    private async _updateIntelliSenseSetting(section: string, key: string, value: string | string[], log: HistoryRecorder) {
+        const name = `${section}.${key}`;
+        const config = vscode.workspace.getConfiguration(section);
+        if (config.inspect(key)?.defaultValue === undefined) {
+            log.appendLine(`未找到设置 ${name}，跳过`);
+            return;
+        }
+
+        try {
+            await config.update(key, value, vscode.ConfigurationTarget.Workspace);
+            log.appendLine(`已更新工作区设置 ${name}`);
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            console.error('[BuildManager] Error updating IntelliSense setting:', name, error);
+            log.appendLine(`更新 ${name} 失败: ${errorMessage}`);
+            vscode.window.showWarningMessage(`更新 IntelliSense 设置 ${name} 失败: ${errorMessage}`);
         }
-        return 0;
     }
 
-    private _getProgressMessage(text: string, progress: number): string {
-        if (text.includes('Compiling')) {
-            return '正在编译...';
-        } else if (text.includes('Linking')) {
-            return '正在链接...';
-        } else if (text.includes('Generating')) {
-            return '正在生成...';
+    // 编译失败且有错误时打开问题面板
+    private async _runCore<T>(context: JobContext, operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (error) {
+            if (!(error instanceof JobCancelledError) && this._diagnosticsManager.getCounts(context.id).errors > 0) {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+            throw error;
         }
-        return '正在处理...';
     }
 }
@@ -1,21 +1,29 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-
-export interface BuildConfig {
-    uePath: string;
-    projectPath: string;
-    buildConfiguration: string;
-}
+import { getHostPlatform } from '../utils/hostPlatform';
+import { ProjectTarget, getDefaultTarget } from '../utils/projectTargets';
+import { BuildConfigurationOption, getSupportedConfigurations, isInstalledEngine, validateConfiguration } from '../utils/buildConfigurations';
+import { BuildConfig, BuildRequest, createBuildRequest, validatePlatform } from '../core/buildRequest';
+import { TeamConfig, findTeamConfigFile, readTeamConfig, resolveTeamConfig } from '../core/teamConfig';
 
 export class ConfigManager {
     private _config: BuildConfig = {
         uePath: '',
         projectPath: '',
-        buildConfiguration: 'Development'
+        buildConfiguration: 'Development',
+        buildTarget: '',
+        platform: ''
     };
 
+    private _targets: ProjectTarget[] = [];
+    private _teamConfig: TeamConfig = {};
+    private _teamConfigFile?: string;
+    private _teamConfigWarnings: string[] = [];
+    private _folder?: vscode.Uri;
     private _view?: vscode.WebviewView;
+    private _onDidChangeConfig = new vscode.EventEmitter<BuildConfig>();
+    public readonly onDidChangeConfig = this._onDidChangeConfig.event;
 
     constructor(view?: vscode.WebviewView) {
         this._view = view;
@@ -44,9 +52,109 @@ export class ConfigManager {
         this._sendConfigToWebview();
     }
 
-    public setBuildConfiguration(buildConfiguration: string) {
+    public async setBuildConfiguration(buildConfiguration: string) {
         this._config.buildConfiguration = buildConfiguration;
         this._sendConfigToWebview();
+        await this._saveSetting('buildConfiguration', buildConfiguration);
+    }
+
+    public async setBuildTarget(buildTarget: string) {
+        this._config.buildTarget = buildTarget;
+        this._sendConfigToWebview();
+        await this._saveSetting('buildTarget', buildTarget);
+    }
+
+    public async setPlatform(platform: string) {
+        this._config.platform = platform;
+        this._sendConfigToWebview();
+        await this._saveSetting('platform', platform);
+    }
+
+    // settings.json 被直接修改时同步到面板
+    public reloadSettings() {
+        this.updateConfig({
+            buildConfiguration: this.getSetting('buildConfiguration', 'Development'),
+            buildTarget: this.getSetting('buildTarget', ''),
+            platform: this.getSetting('platform', '')
+        });
+    }
+
+    // 读取工作区文件夹中的 .uebuilder.json，失败时返回错误信息
+    public loadTeamConfig(folder: vscode.Uri | undefined): string | undefined {
+        this._folder = folder;
+        this._teamConfig = {};
+        this._teamConfigWarnings = [];
+        this._teamConfigFile = folder ? findTeamConfigFile(folder.fsPath) : undefined;
+        if (!folder || !this._teamConfigFile) {
+            return undefined;
+        }
+
+        try {
+            const settings = vscode.workspace.getConfiguration('ueBuilder', folder);
+            this._teamConfig = resolveTeamConfig(readTeamConfig(this._teamConfigFile), {
+                workspaceFolder: folder.fsPath,
+                uePath: this._getExplicitSetting<string>(settings, 'uePath'),
+                projectPath: this._getExplicitSetting<string>(settings, 'projectPath'),
+                onUnresolved: (field, variables) => this._teamConfigWarnings.push(`${field}: ${variables.join(', ')}`)
+            });
+            console.log('[ConfigManager] Loaded team config:', this._teamConfigFile);
+            return undefined;
+        } catch (error: any) {
+            console.error('[ConfigManager] Error loading team config:', error);
+            return error.message || String(error);
+        }
+    }
+
+    public getTeamConfig(): TeamConfig {
+        return this._teamConfig;
+    }
+
+    public getTeamConfigFile(): string | undefined {
+        return this._teamConfigFile;
+    }
+
+    // 团队配置中因变量未定义而忽略的字段
+    public getTeamConfigWarnings(): string[] {
+        return this._teamConfigWarnings;
+    }
+
+    // 用户和工作区设置优先，未设置时使用团队配置
+    public getSetting<T>(key: keyof TeamConfig, defaultValue: T): T {
+        const value = this._getExplicitSetting<T>(vscode.workspace.getConfiguration('ueBuilder', this._folder), key);
+        if (value !== undefined) {
+            return value;
+        }
+        const teamValue = this._teamConfig[key];
+        return teamValue !== undefined ? teamValue as unknown as T : defaultValue;
+    }
+
+    public getPlatform(): string {
+        return this._config.platform || getHostPlatform().name;
+    }
+
+    public setTargets(targets: ProjectTarget[]) {
+        this._targets = targets;
+        this._sendConfigToWebview();
+    }
+
+    public getTargets(): ProjectTarget[] {
+        return [...this._targets];
+    }
+
+    public getActiveTarget(): ProjectTarget {
+        const defaultTarget = getDefaultTarget(this.getProjectName());
+        const name = this._config.buildTarget || defaultTarget.name;
+        return this._targets.find(target => target.name === name)
+            || this._targets.find(target => target.name === defaultTarget.name)
+            || defaultTarget;
+    }
+
+    public getConfigurations(target: ProjectTarget = this.getActiveTarget()): BuildConfigurationOption[] {
+        return getSupportedConfigurations(target.type, this._isInstalledEngine());
+    }
+
+    public validateConfiguration(target: ProjectTarget = this.getActiveTarget(), configuration: string = this._config.buildConfiguration): { valid: boolean; error?: string } {
+        return validateConfiguration(configuration, target.type, this._isInstalledEngine());
     }
 
     public validateConfig(): { valid: boolean; error?: string } {
@@ -69,6 +177,16 @@ export class ConfigManager {
         return { valid: true };
     }
 
+    // 钩子会执行仓库中提交的任意命令，只在受信任的工作区中使用
+    public createBuildRequest(): BuildRequest {
+        const hooks = vscode.workspace.isTrusted ? this._teamConfig.hooks : undefined;
+        return createBuildRequest(this.getConfig(), this.getActiveTarget(), this.getPlatform(), hooks);
+    }
+
+    public validatePlatform(target: ProjectTarget = this.getActiveTarget(), platform: string = this.getPlatform()): { valid: boolean; error?: string } {
+        return validatePlatform(target, platform, this.getEngineRoot());
+    }
+
     public getProjectDir(): string {
         return path.dirname(this._config.projectPath);
     }
@@ -87,19 +205,59 @@ export class ConfigManager {
         return path.dirname(this._config.uePath);
     }
 
+    public getEngineRoot(): string {
+        return getHostPlatform().getEngineRoot(this._config.uePath);
+    }
+
     public getUBTPath(): string {
-        const ueEnginePath = this._config.uePath;
-        const engineRootDir = path.dirname(path.dirname(path.dirname(path.dirname(ueEnginePath))));
-        return path.join(engineRootDir, 'Engine', 'Build', 'BatchFiles', 'Build.bat');
+        return getHostPlatform().getBuildScript(this.getEngineRoot());
+    }
+
+    public getUATPath(): string {
+        return getHostPlatform().getUATScript(this.getEngineRoot());
+    }
+
+    public dispose() {
+        this._onDidChangeConfig.dispose();
+    }
+
+    private _isInstalledEngine(): boolean {
+        return !!this._config.uePath && isInstalledEngine(this.getEngineRoot());
+    }
+
+    // 空字符串表示使用默认值，不覆盖团队配置
+    private _getExplicitSetting<T>(config: vscode.WorkspaceConfiguration, key: string): T | undefined {
+        const inspected = config.inspect<T>(key);
+        const value = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+        return value === '' ? undefined : value;
+    }
+
+    // 写入读取时使用的同一个文件夹范围，否则多根工作区中已有的文件夹设置会覆盖新选择的值
+    private async _saveSetting(key: keyof BuildConfig, value: string) {
+        const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
+        try {
+            await vscode.workspace.getConfiguration('ueBuilder', this._folder).update(
+                key,
+                value,
+                multiRoot && this._folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace
+            );
+        } catch (error) {
+            console.error(`[ConfigManager] Error saving ${key}:`, error);
+        }
     }
 
     private _sendConfigToWebview() {
+        this._onDidChangeConfig.fire(this.getConfig());
         if (this._view) {
             this._view.webview.postMessage({
                 type: 'update',
                 uePath: this._config.uePath,
                 projectPath: this._config.projectPath,
-                buildConfiguration: this._config.buildConfiguration
+                buildConfiguration: this._config.buildConfiguration,
+                configurations: this.getConfigurations(),
+                buildTarget: this.getActiveTarget().name,
+                targets: this._targets,
+                platform: this.getPlatform()
             });
         }
     }
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { CRASH_CONTEXT_FILE, CrashFrame, CrashReport, loadCrashReports, readCrashReport } from '../utils/crashReports';
+import { resolveSourcePath } from '../utils/sourcePaths';
+
+// 面板中保留的最近崩溃数量
+const MAX_CRASH_REPORTS = 20;
+// 崩溃报告客户端会分多次写入崩溃目录，等待写入完成后再读取
+const CRASH_READ_DELAY = 1000;
+
+type CrashTreeNode =
+    | { kind: 'crash'; report: CrashReport }
+    | { kind: 'frame'; report: CrashReport; frame: CrashFrame; index: number };
+
+export class CrashReportManager implements vscode.TreeDataProvider<CrashTreeNode>, vscode.Disposable {
+    private _configManager: ConfigManager;
+    private _reports: CrashReport[] = [];
+    private _crashesDir?: string;
+    private _watcher?: vscode.FileSystemWatcher;
+    private _pendingTimers: Map<string, NodeJS.Timeout> = new Map();
+    private _treeView: vscode.TreeView<CrashTreeNode>;
+    private _disposables: vscode.Disposable[] = [];
+    private _onDidChangeTreeData = new vscode.EventEmitter<CrashTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(configManager: ConfigManager) {
+        this._configManager = configManager;
+        this._treeView = vscode.window.createTreeView('ueBuilderCrashes', { treeDataProvider: this });
+        this._disposables.push(
+            this._treeView,
+            this._configManager.onDidChangeConfig(() => {
+                if (this._crashesDir !== this._getCrashesDir()) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        this._watcher?.dispose();
+        this._pendingTimers.forEach(timer => clearTimeout(timer));
+        this._pendingTimers.clear();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public refresh() {
+        const crashesDir = this._getCrashesDir();
+        if (crashesDir !== this._crashesDir) {
+            this._crashesDir = crashesDir;
+            this._watch(crashesDir);
+        }
+
+        this._reports = crashesDir ? loadCrashReports(crashesDir, MAX_CRASH_REPORTS) : [];
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(node: CrashTreeNode): vscode.TreeItem {
+        if (node.kind === 'crash') {
+            const { report } = node;
+            const item = new vscode.TreeItem(this._getSummary(report), vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = report.id;
+            item.description = new Date(report.time).toLocaleString();
+            item.tooltip = [
+                report.errorMessage,
+                report.crashType ? `类型: ${report.crashType}` : '',
+                report.gameName ? `项目: ${report.gameName}` : '',
+                report.buildVersion ? `版本: ${report.buildVersion}` : '',
+                report.engineVersion ? `引擎: ${report.engineVersion}` : '',
+                `模块: ${report.modules.length} 个`,
+                report.folder
+            ].filter(Boolean).join('\n');
+            item.iconPath = new vscode.ThemeIcon('bug', new vscode.ThemeColor('errorForeground'));
+            item.contextValue = 'crashReport';
+            return item;
+        }
+
+        const { frame } = node;
+        const item = new vscode.TreeItem(frame.symbol, vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.report.id}#${node.index}`;
+        item.description = frame.file
+            ? `${path.win32.basename(frame.file)}:${frame.line}`
+            : frame.module;
+        item.tooltip = frame.raw;
+        if (frame.file && frame.line !== undefined) {
+            item.iconPath = new vscode.ThemeIcon('symbol-method');
+            item.command = {
+                command: 'ueBuilder.openCrashFrame',
+                title: '打开源文件',
+                arguments: [frame]
+            };
+        } else {
+            // 没有符号信息的帧（系统库或缺少 PDB）
+            item.iconPath = new vscode.ThemeIcon('circle-outline');
+        }
+        return item;
+    }
+
+    public getChildren(node?: CrashTreeNode): CrashTreeNode[] {
+        if (!node) {
+            return this._reports.map(report => ({ kind: 'crash', report }));
+        }
+        if (node.kind === 'crash') {
+            return node.report.callstack.map((frame, index) => ({ kind: 'frame', report: node.report, frame, index }));
+        }
+        return [];
+    }
+
+    public getParent(node: CrashTreeNode): CrashTreeNode | undefined {
+        return node.kind === 'frame' ? { kind: 'crash', report: node.report } : undefined;
+    }
+
+    public async showReport(id?: string) {
+        const report = id ? this._reports.find(candidate => candidate.id === id) : this._reports[0];
+        if (!report) {
+            vscode.window.showInformationMessage('没有崩溃报告');
+            return;
+        }
+        await this._treeView.reveal({ kind: 'crash', report }, { expand: true, focus: true, select: true });
+    }
+
+    public async openFrame(frame: CrashFrame) {
+        if (!frame.file || frame.line === undefined) {
+            return;
+        }
+
+        let uri: vscode.Uri | undefined;
+        const resolved = resolveSourcePath(frame.file, this._configManager.getProjectDir(), this._configManager.getEngineRoot());
+        if (resolved) {
+            uri = vscode.Uri.file(resolved);
+        } else {
+            const matches = await vscode.workspace.findFiles(`**/${path.win32.basename(frame.file)}`, undefined, 1);
+            uri = matches[0];
+        }
+        if (!uri) {
+            vscode.window.showWarningMessage(`找不到源文件: ${frame.file}`);
+            return;
+        }
+
+        const position = new vscode.Position(Math.max(frame.line - 1, 0), 0);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+    }
+
+    public openFolder(node?: CrashTreeNode) {
+        const report = node?.report || this._reports[0];
+        if (report) {
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(path.join(report.folder, CRASH_CONTEXT_FILE)));
+        }
+    }
+
+    private _getCrashesDir(): string | undefined {
+        if (!this._configManager.getConfig().projectPath) {
+            return undefined;
+        }
+        return path.join(this._configManager.getProjectDir(), 'Saved', 'Crashes');
+    }
+
+    private _watch(crashesDir: string | undefined) {
+        this._watcher?.dispose();
+        this._watcher = undefined;
+        if (!crashesDir) {
+            return;
+        }
+
+        // 以项目目录为基准监听，Saved/Crashes 在第一次崩溃前可能还不存在
+        const projectDir = path.dirname(path.dirname(crashesDir));
+        this._watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(projectDir), `Saved/Crashes/*/${CRASH_CONTEXT_FILE}`));
+        this._watcher.onDidCreate(uri => this._onCrashContextChanged(uri));
+        this._watcher.onDidChange(uri => this._onCrashContextChanged(uri));
+        this._watcher.onDidDelete(() => this.refresh());
+    }
+
+    private _onCrashContextChanged(uri: vscode.Uri) {
+        const folder = path.dirname(uri.fsPath);
+        const pending = this._pendingTimers.get(folder);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this._pendingTimers.set(folder, setTimeout(() => {
+            this._pendingTimers.delete(folder);
+            const isNew = !this._reports.some(report => report.folder === folder);
+            this.refresh();
+            const report = readCrashReport(folder);
+            if (isNew && report) {
+                console.log('[CrashReportManager] New crash detected:', folder);
+                this._notify(report);
+            }
+        }, CRASH_READ_DELAY));
+    }
+
+    private async _notify(report: CrashReport) {
+        const topFrame = report.callstack.find(frame => frame.file) || report.callstack[0];
+        const location = topFrame ? ` (${topFrame.symbol})` : '';
+        const choice = await vscode.window.showErrorMessage(`检测到崩溃: ${this._getSummary(report)}${location}`, '查看调用堆栈', '打开崩溃目录');
+        if (choice === '查看调用堆栈') {
+            await this.showReport(report.id);
+        } else if (choice === '打开崩溃目录') {
+            this.openFolder({ kind: 'crash', report });
+        }
+    }
+
+    private _getSummary(report: CrashReport): string {
+        return report.errorMessage.split(/\r?\n/)[0];
+    }
+}
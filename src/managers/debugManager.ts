@@ -1,18 +1,82 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { spawn, exec } from 'child_process';
-import { ConfigManager, BuildConfig } from './configManager';
+import { ConfigManager } from './configManager';
+import { BuildConfig, BuildRequest } from '../core/buildRequest';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { BuildManager } from './buildManager';
+import { LogViewerManager } from './logViewerManager';
+import { HistoryManager, HistoryOperation, HistoryRecorder, HistoryStartOptions } from './historyManager';
+import { isNativePlatform } from '../utils/targetPlatforms';
+import { getHostPlatform, ProcessInfo } from '../utils/hostPlatform';
+import { getEditorExecutablePath, getTargetExecutablePath } from '../utils/projectTargets';
+import { Job, JobCancelledError, JobContext, JobRunner, ProcessExitError } from '../utils/jobRunner';
+import { LaunchProfile, getDefaultLaunchProfile, getLaunchModeArgs } from '../utils/launchProfiles';
+import {
+    MultiplayerOptions,
+    SessionProcessSpec,
+    createLinePrefixer,
+    createSessionProcesses,
+    getDefaultMultiplayerOptions,
+    validateMultiplayerOptions
+} from '../utils/multiplayerSession';
+import { mergeNamed } from '../core/teamConfig';
+
+const DEBUG_SESSION_PREFIX = 'UE Builder';
+// 多人游戏会话中的调试会话单独管理，不作为当前调试会话
+const MULTIPLAYER_SESSION_PREFIX = 'UE Multiplayer';
+// 先启动服务器，等待其开始监听后再启动客户端
+const SERVER_STARTUP_DELAY = 3000;
+
+interface LaunchCommand {
+    program: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+}
 
 export class DebugManager {
-    private _debugProcess?: any;
-    private _isDebugging: boolean = false;
+    private _debugSession?: vscode.DebugSession;
     private _view?: vscode.WebviewView;
     private _configManager: ConfigManager;
-
-    constructor(configManager: ConfigManager, view?: vscode.WebviewView) {
+    private _diagnosticsManager: DiagnosticsManager;
+    private _buildManager: BuildManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+    private _logViewerManager: LogViewerManager;
+    private _disposables: vscode.Disposable[] = [];
+    private _multiplayerOutput?: vscode.OutputChannel;
+
+    constructor(configManager: ConfigManager, diagnosticsManager: DiagnosticsManager, buildManager: BuildManager, jobRunner: JobRunner, historyManager: HistoryManager, logViewerManager: LogViewerManager, view?: vscode.WebviewView) {
         this._configManager = configManager;
+        this._diagnosticsManager = diagnosticsManager;
+        this._buildManager = buildManager;
+        this._jobRunner = jobRunner;
+        this._historyManager = historyManager;
+        this._logViewerManager = logViewerManager;
         this._view = view;
+
+        this._disposables.push(
+            vscode.debug.onDidStartDebugSession(session => {
+                if (session.name.startsWith(DEBUG_SESSION_PREFIX)) {
+                    console.log('[DebugManager] Debug session started:', session.name);
+                    this._debugSession = session;
+                }
+            }),
+            vscode.debug.onDidTerminateDebugSession(session => {
+                if (this._debugSession && session.id === this._debugSession.id) {
+                    console.log('[DebugManager] Debug session terminated:', session.name);
+                    this._debugSession = undefined;
+                    this._view?.webview.postMessage({ type: 'debugSessionEnded' });
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+        this._multiplayerOutput?.dispose();
     }
 
     public setView(view: vscode.WebviewView) {
@@ -20,173 +84,173 @@ export class DebugManager {
     }
 
     public isDebugging(): boolean {
-        return this._isDebugging;
+        return !!this._debugSession || this._jobRunner.hasActiveJobsOfKind('debug');
     }
 
     public cancelDebug() {
-        if (this._debugProcess) {
-            console.log('[DebugManager] Cancelling debug process...');
-            try {
-                spawn('taskkill', ['/F', '/T', '/PID', String(this._debugProcess.pid)]);
-                
-                console.log('[DebugManager] Debug process cancelled');
-                this._isDebugging = false;
-                this._debugProcess = undefined;
-                
-                if (this._view) {
-                    this._view.webview.postMessage({ type: 'debugCancelled' });
-                }
-                
-                vscode.window.showInformationMessage('操作已取消');
-            } catch (error) {
-                console.error('[DebugManager] Error cancelling debug:', error);
-            }
-        }
-    }
-
-    public async startDebug() {
-        if (this._isDebugging) {
-            vscode.window.showWarningMessage('已有操作正在进行中');
+        if (this._debugSession) {
+            console.log('[DebugManager] Stopping debug session...');
+            vscode.debug.stopDebugging(this._debugSession);
+            this._debugSession = undefined;
+            this._view?.webview.postMessage({ type: 'debugCancelled' });
+            vscode.window.showInformationMessage('调试会话已停止');
             return;
         }
 
-        const config = this._configManager.getConfig();
-        const validation = this._configManager.validateConfig();
-        if (!validation.valid) {
-            vscode.window.showErrorMessage(validation.error || '配置验证失败');
-            return;
+        if (this._jobRunner.hasActiveJobsOfKind('debug')) {
+            console.log('[DebugManager] Cancelling debug jobs...');
+            this._jobRunner.cancelKind('debug');
         }
+    }
 
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const buildConfiguration = config.buildConfiguration;
-
-        this._isDebugging = true;
-        this._view?.webview.postMessage({ type: 'debugStarted' });
-
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
-        outputChannel.appendLine(`=== 开始调试 ===`);
-        outputChannel.appendLine(`项目: ${projectName}`);
-        outputChannel.appendLine(`配置: ${buildConfiguration}`);
-
-        try {
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 10, message: '正在编译...' });
+    public getLaunchProfiles(): LaunchProfile[] {
+        return mergeNamed(this._configManager.getTeamConfig().launchProfiles, this._getSettingsLaunchProfiles());
+    }
 
-            outputChannel.appendLine('--- 编译项目 ---');
-            await this._buildProject(config, outputChannel);
+    public getActiveLaunchProfile(): LaunchProfile {
+        const activeName = this._configManager.getSetting('activeLaunchProfile', '');
+        const profiles = this.getLaunchProfiles();
+        return profiles.find(profile => profile.name === activeName) || profiles[0] || getDefaultLaunchProfile();
+    }
 
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 50, message: '正在启动调试...' });
+    public async saveLaunchProfile(profile: LaunchProfile) {
+        const profiles = this._getSettingsLaunchProfiles().filter(existing => existing.name !== profile.name);
+        profiles.push(profile);
 
-            outputChannel.appendLine('--- 启动调试 ---');
-            const uePath = config.uePath;
-            if (!uePath || !fs.existsSync(uePath)) {
-                throw new Error('UE5 编辑器路径未设置或不存在');
-            }
+        const config = vscode.workspace.getConfiguration('ueBuilder');
+        await config.update('launchProfiles', profiles, vscode.ConfigurationTarget.Workspace);
+        await config.update('activeLaunchProfile', profile.name, vscode.ConfigurationTarget.Workspace);
+        this._sendLaunchProfilesToWebview();
+    }
 
-            const debugCommand = `"${uePath}" "${projectPath}" -debug`;
-            outputChannel.appendLine(`执行命令: ${debugCommand}`);
-            
-            this._debugProcess = spawn('cmd', ['/c', debugCommand], { 
-                cwd: projectDir,
-                shell: true,
-                detached: true
-            });
+    public async selectLaunchProfile(name: string) {
+        await vscode.workspace.getConfiguration('ueBuilder').update('activeLaunchProfile', name, vscode.ConfigurationTarget.Workspace);
+        this._sendLaunchProfilesToWebview();
+    }
 
-            this._debugProcess.unref();
-            this._debugProcess = undefined;
-            this._isDebugging = false;
+    public async deleteLaunchProfile(name: string) {
+        const settingsProfiles = this._getSettingsLaunchProfiles();
+        if (!settingsProfiles.some(profile => profile.name === name)) {
+            vscode.window.showWarningMessage(`启动配置 ${name} 定义在团队配置文件中，请在 ${this._configManager.getTeamConfigFile()} 中修改`);
+            return;
+        }
 
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 100, message: '调试已启动' });
+        const profiles = settingsProfiles.filter(profile => profile.name !== name);
+        await vscode.workspace.getConfiguration('ueBuilder').update('launchProfiles', profiles, vscode.ConfigurationTarget.Workspace);
+        this._sendLaunchProfilesToWebview();
+    }
 
-            outputChannel.appendLine('=== 调试已启动 ===');
-            vscode.window.showInformationMessage('调试已启动');
-            this._view?.webview.postMessage({ type: 'debugSuccess' });
-        } catch (error: any) {
-            this._isDebugging = false;
-            this._debugProcess = undefined;
-            
-            const errorMessage = error.message || String(error);
-            outputChannel.appendLine(`启动失败: ${errorMessage}`);
-            vscode.window.showErrorMessage('启动失败! 查看输出面板了解详情');
-            this._view?.webview.postMessage({ type: 'debugFailed', error: errorMessage });
-        }
+    public sendLaunchProfiles() {
+        this._sendLaunchProfilesToWebview();
     }
 
-    public async startWithoutDebug() {
-        if (this._isDebugging) {
-            vscode.window.showWarningMessage('已有操作正在进行中');
-            return;
+    public startDebug(profile: LaunchProfile = this.getActiveLaunchProfile(), request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
         }
+        const buildRequest = request;
 
-        const config = this._configManager.getConfig();
-        const validation = this._configManager.validateConfig();
-        if (!validation.valid) {
-            vscode.window.showErrorMessage(validation.error || '配置验证失败');
-            return;
-        }
+        return this._enqueue('startDebug', '开始调试', '调试已启动', buildRequest, { launchProfile: profile }, async (context, log) => {
+            log.appendLine('--- 编译项目 ---');
+            await this._buildManager.compile(context, buildRequest, log, [10, 50]);
 
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const buildConfiguration = config.buildConfiguration;
+            context.progress(50, '正在启动调试...');
+            log.appendLine('--- 启动调试 ---');
+            const debugConfig = this._createLaunchConfiguration(buildRequest, profile);
+            if (!fs.existsSync(debugConfig.program)) {
+                throw new Error(`可执行文件不存在: ${debugConfig.program}`);
+            }
+            log.appendLine(`调试器: ${debugConfig.type}`);
+            log.appendLine(`执行命令: "${debugConfig.program}" ${debugConfig.args.map((arg: string) => `"${arg}"`).join(' ')}`);
 
-        this._isDebugging = true;
-        this._view?.webview.postMessage({ type: 'debugStarted' });
+            const started = await vscode.debug.startDebugging(this._getWorkspaceFolder(), debugConfig);
+            if (!started) {
+                throw new Error(`无法启动调试会话，请确认已安装支持 ${debugConfig.type} 的调试扩展`);
+            }
+            this._logViewerManager.showForLaunch();
+        });
+    }
 
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
-        outputChannel.appendLine(`=== 开始执行(不调试) ===`);
-        outputChannel.appendLine(`项目: ${projectName}`);
-        outputChannel.appendLine(`配置: ${buildConfiguration}`);
+    public startWithoutDebug(profile: LaunchProfile = this.getActiveLaunchProfile(), request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
+        }
+        const buildRequest = request;
+
+        return this._enqueue('startWithoutDebug', '开始执行(不调试)', '项目已启动', buildRequest, { launchProfile: profile }, async (context, log) => {
+            log.appendLine('--- 编译项目 ---');
+            await this._buildManager.compile(context, buildRequest, log, [10, 50]);
+
+            context.progress(50, '正在启动项目...');
+            log.appendLine('--- 启动项目 ---');
+            const platform = getHostPlatform();
+            const launch = this._getLaunchCommand(buildRequest, profile);
+            if (!fs.existsSync(launch.program)) {
+                throw new Error(`可执行文件不存在: ${launch.program}`);
+            }
+            log.appendLine(`执行命令: ${platform.formatCommand(launch.program, launch.args)}`);
+            log.appendLine(`工作目录: ${launch.cwd}`);
 
-        try {
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 10, message: '正在编译...' });
+            platform.launchDetached(launch.program, launch.args, launch.cwd, { ...process.env, ...launch.env }, error => {
+                log.appendLine(`启动警告: ${error.message}`);
+            });
+            this._logViewerManager.showForLaunch();
+        });
+    }
 
-            outputChannel.appendLine('--- 编译项目 ---');
-            await this._buildProject(config, outputChannel);
+    public getMultiplayerOptions(): MultiplayerOptions {
+        const saved = vscode.workspace.getConfiguration('ueBuilder').get<Partial<MultiplayerOptions>>('multiplayer', {});
+        return { ...getDefaultMultiplayerOptions(), ...this._configManager.getTeamConfig().multiplayer, ...saved };
+    }
 
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 50, message: '正在启动项目...' });
+    public async saveMultiplayerOptions(options: MultiplayerOptions) {
+        await vscode.workspace.getConfiguration('ueBuilder').update('multiplayer', options, vscode.ConfigurationTarget.Workspace);
+        this._sendMultiplayerOptionsToWebview();
+    }
 
-            outputChannel.appendLine('--- 启动项目 ---');
-            const uePath = config.uePath;
-            if (!uePath || !fs.existsSync(uePath)) {
-                throw new Error('UE5 编辑器路径未设置或不存在');
-            }
+    public sendMultiplayerOptions() {
+        this._sendMultiplayerOptionsToWebview();
+    }
 
-            const runCommand = `"${uePath}" "${projectPath}"`;
-            outputChannel.appendLine(`执行命令: ${runCommand}`);
-            
-            exec(runCommand, { 
-                cwd: projectDir,
-                windowsHide: false
-            }, (error) => {
-                if (error) {
-                    outputChannel.appendLine(`启动警告: ${error.message}`);
-                }
-            });
+    public isMultiplayerRunning(): boolean {
+        return this._jobRunner.hasActiveJobsOfKind('multiplayer');
+    }
 
-            this._debugProcess = undefined;
-            this._isDebugging = false;
+    public stopMultiplayerSession() {
+        if (this.isMultiplayerRunning()) {
+            console.log('[DebugManager] Stopping multiplayer session...');
+            this._jobRunner.cancelKind('multiplayer');
+        }
+    }
 
-            this._view?.webview.postMessage({ type: 'buildProgress', progress: 100, message: '项目已启动' });
+    // 会话在所有进程退出前一直占用队列，避免会话运行期间编译覆盖正在使用的二进制文件
+    public startMultiplayerSession(options: MultiplayerOptions = this.getMultiplayerOptions(), request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
+        }
+        const buildRequest = request;
 
-            outputChannel.appendLine('=== 项目已启动 ===');
-            vscode.window.showInformationMessage('项目已启动');
-            this._view?.webview.postMessage({ type: 'debugSuccess' });
-        } catch (error: any) {
-            this._isDebugging = false;
-            this._debugProcess = undefined;
-            
-            const errorMessage = error.message || String(error);
-            outputChannel.appendLine(`启动失败: ${errorMessage}`);
-            vscode.window.showErrorMessage('启动失败! 查看输出面板了解详情');
-            this._view?.webview.postMessage({ type: 'debugFailed', error: errorMessage });
+        const validation = validateMultiplayerOptions(options);
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '多人游戏配置无效');
+            return undefined;
+        }
+        if (buildRequest.target.type !== 'Editor') {
+            vscode.window.showErrorMessage('多人游戏会话需要选择 Editor 目标');
+            return undefined;
         }
+
+        return this._enqueue('startMultiplayer', '多人游戏会话', '多人游戏会话已结束', buildRequest, { multiplayer: options }, async (context, log) => {
+            log.appendLine('--- 编译项目 ---');
+            await this._buildManager.compile(context, buildRequest, log, [5, 40]);
+
+            context.progress(40, '正在启动多人游戏会话...');
+            log.appendLine('--- 启动多人游戏会话 ---');
+            await this._runMultiplayerSession(context, buildRequest, options, log);
+        }, 'multiplayer');
     }
 
-    public async launchProject() {
+    public async launchProject(profile: LaunchProfile = this.getActiveLaunchProfile()) {
         const config = this._configManager.getConfig();
         const projectPath = config.projectPath;
         const uePath = config.uePath;
@@ -201,25 +265,27 @@ export class DebugManager {
             return;
         }
 
-        const outputChannel = vscode.window.createOutputChannel('UE Builder');
-        outputChannel.show();
+        const outputChannel = this._historyManager.getOutputChannel();
+        outputChannel.show(true);
         outputChannel.appendLine(`=== 启动项目 ===`);
         outputChannel.appendLine(`项目: ${projectPath}`);
+        outputChannel.appendLine(`启动配置: ${profile.name}`);
 
         try {
-            const projectDir = this._configManager.getProjectDir();
-            const runCommand = `"${uePath}" "${projectPath}"`;
-            outputChannel.appendLine(`执行命令: ${runCommand}`);
+            const request = this._configManager.createBuildRequest();
+            const platform = getHostPlatform();
+            const launch = this._getLaunchCommand(request, profile);
+            if (!fs.existsSync(launch.program)) {
+                throw new Error(`可执行文件不存在: ${launch.program}`);
+            }
+            outputChannel.appendLine(`执行命令: ${platform.formatCommand(launch.program, launch.args)}`);
             
-            exec(runCommand, { 
-                cwd: projectDir,
-                windowsHide: false
-            }, (error) => {
-                if (error) {
-                    outputChannel.appendLine(`启动警告: ${error.message}`);
-                }
+            platform.launchDetached(launch.program, launch.args, launch.cwd, { ...process.env, ...launch.env }, error => {
+                outputChannel.appendLine(`启动警告: ${error.message}`);
             });
 
+            this._logViewerManager.showForLaunch();
+
             outputChannel.appendLine('=== 项目已启动 ===');
             vscode.window.showInformationMessage('项目已启动');
         } catch (error: any) {
@@ -229,113 +295,387 @@ export class DebugManager {
         }
     }
 
-    private async _buildProject(config: BuildConfig, outputChannel: vscode.OutputChannel) {
-        const projectPath = config.projectPath;
-        const projectDir = this._configManager.getProjectDir();
-        const projectName = this._configManager.getProjectName();
-        const buildConfiguration = config.buildConfiguration;
+    public async attachToProcess() {
+        if (this._debugSession) {
+            vscode.window.showWarningMessage('已有调试会话正在进行中');
+            return;
+        }
 
-        const ueEnginePath = config.uePath;
-        const engineRootDir = path.dirname(path.dirname(path.dirname(path.dirname(ueEnginePath))));
-        const buildBatPath = path.join(engineRootDir, 'Engine', 'Build', 'BatchFiles', 'Build.bat');
+        const config = this._configManager.getConfig();
+        let processes: ProcessInfo[];
+        try {
+            processes = await getHostPlatform().findProcesses('UnrealEditor');
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`获取进程列表失败: ${error.message || String(error)}`);
+            return;
+        }
 
-        if (!fs.existsSync(buildBatPath)) {
-            throw new Error(`Build.bat not found at: ${buildBatPath}`);
+        if (processes.length === 0) {
+            vscode.window.showWarningMessage('未找到正在运行的 UnrealEditor 进程');
+            return;
         }
 
-        outputChannel.appendLine(`执行: ${buildBatPath}`);
-        outputChannel.appendLine(`参数: ${projectName}Editor Win64 ${buildConfiguration} -Project="${projectPath}" -WaitMutex -FromMsBuild -architecture=x64`);
-        
-        await this._executeProcess(buildBatPath, [`${projectName}Editor`, 'Win64', buildConfiguration, `-Project="${projectPath}"`, '-WaitMutex', '-FromMsBuild', '-architecture=x64'], projectDir, outputChannel);
+        const projectPath = config.projectPath.toLowerCase();
+        const items = processes
+            .map(proc => ({
+                label: `${proc.name} (${proc.pid})`,
+                description: proc.commandLine.toLowerCase().includes(projectPath) && projectPath ? '当前项目' : undefined,
+                detail: proc.commandLine,
+                pid: proc.pid
+            }))
+            .sort((a, b) => (b.description ? 1 : 0) - (a.description ? 1 : 0));
+
+        const selected = items.length === 1
+            ? items[0]
+            : await vscode.window.showQuickPick(items, { placeHolder: '选择要附加的 UnrealEditor 进程' });
+        if (!selected) {
+            return;
+        }
+
+        const attachConfig = this._createAttachConfiguration(config, selected.pid);
+        console.log('[DebugManager] Attaching to process:', selected.pid);
+
+        const started = await vscode.debug.startDebugging(this._getWorkspaceFolder(), attachConfig);
+        if (!started) {
+            vscode.window.showErrorMessage(`附加失败，请确认已安装支持 ${attachConfig.type} 的调试扩展`);
+            return;
+        }
+
+        vscode.window.showInformationMessage(`已附加到进程 ${selected.pid}`);
     }
 
-    private async _executeProcess(executable: string, args: string[], cwd: string, outputChannel: vscode.OutputChannel): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            let childProcess: any;
-            
-            if (executable.endsWith('.bat')) {
-                const quotedExecutable = `"${executable}"`;
-                const quotedArgs = args.map(arg => arg.includes(' ') ? `"${arg}"` : arg);
-                const command = `${quotedExecutable} ${quotedArgs.join(' ')}`;
-                
-                outputChannel.appendLine(`执行命令: ${command}`);
-                
-                childProcess = exec(command, { 
-                    cwd: cwd,
-                    windowsHide: true,
-                    maxBuffer: 1024 * 1024 * 10
-                });
-            } else {
-                childProcess = spawn(executable, args, { 
-                    cwd: cwd,
-                    shell: false,
-                    windowsHide: true
-                });
+    private _getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+        const projectUri = vscode.Uri.file(this._configManager.getConfig().projectPath);
+        return vscode.workspace.getWorkspaceFolder(projectUri) || vscode.workspace.workspaceFolders?.[0];
+    }
+
+    private _getDebuggerType(): string {
+        switch (process.platform) {
+            case 'win32':
+                return 'cppvsdbg';
+            case 'darwin':
+                return 'lldb';
+            default:
+                return 'cppdbg';
+        }
+    }
+
+    private _getLaunchCommand(request: BuildRequest, profile: LaunchProfile): LaunchCommand {
+        const { config, target, platform } = request;
+        if (!isNativePlatform(platform, getHostPlatform().name)) {
+            throw new Error(`无法在当前主机上启动 ${platform} 平台的程序`);
+        }
+
+        const map = profile.map ? [profile.map] : [];
+        const command = { program: '', args: [] as string[] };
+        switch (target.type) {
+            case 'Editor': {
+                command.program = getEditorExecutablePath(config.uePath, platform, config.buildConfiguration, profile.mode === 'commandlet');
+                command.args = [config.projectPath, ...map, ...getLaunchModeArgs(profile)];
+                if (config.buildConfiguration === 'DebugGame') {
+                    command.args.push('-debug');
+                }
+                break;
             }
-            
-            this._debugProcess = childProcess;
-
-            let stdout = '';
-            let stderr = '';
-            let currentProgress = 0;
-
-            this._debugProcess.stdout?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stdout += text;
-                outputChannel.append(text);
-
-                const progress = this._parseProgress(text);
-                if (progress > currentProgress) {
-                    currentProgress = progress;
-                    if (this._view) {
-                        this._view.webview.postMessage({ 
-                            type: 'buildProgress', 
-                            progress: 10 + (progress * 0.4),
-                            message: this._getProgressMessage(text, progress)
-                        });
-                    }
+            case 'Program':
+                command.program = getTargetExecutablePath(request.projectDir, target, platform, config.buildConfiguration);
+                break;
+            default: {
+                command.program = getTargetExecutablePath(request.projectDir, target, platform, config.buildConfiguration);
+                command.args = [config.projectPath, ...map];
+                if (target.type === 'Server') {
+                    command.args.push('-log');
                 }
-            });
+                break;
+            }
+        }
+
+        return {
+            program: command.program,
+            args: [...command.args, ...(profile.extraArgs || [])],
+            cwd: profile.cwd ? path.resolve(request.projectDir, profile.cwd) : request.projectDir,
+            env: profile.env || {}
+        };
+    }
+
+    private _createLaunchConfiguration(request: BuildRequest, profile: LaunchProfile): vscode.DebugConfiguration {
+        const launch = this._getLaunchCommand(request, profile);
+        const debugConfig: vscode.DebugConfiguration = {
+            name: `${DEBUG_SESSION_PREFIX}: ${request.target.name} (${profile.name})`,
+            type: this._getDebuggerType(),
+            request: 'launch',
+            program: launch.program,
+            args: launch.args,
+            cwd: launch.cwd
+        };
+
+        // CodeLLDB 使用 env 对象，cppvsdbg / cppdbg 使用 environment 数组
+        if (debugConfig.type === 'lldb') {
+            debugConfig.env = launch.env;
+        } else {
+            debugConfig.environment = Object.entries(launch.env).map(([name, value]) => ({ name, value }));
+        }
+
+        return this._applyDebuggerDefaults(debugConfig, request.config);
+    }
+
+    private _createAttachConfiguration(config: BuildConfig, pid: number): vscode.DebugConfiguration {
+        const debugConfig: vscode.DebugConfiguration = {
+            name: `${DEBUG_SESSION_PREFIX}: Attach ${pid}`,
+            type: this._getDebuggerType(),
+            request: 'attach',
+            processId: pid
+        };
+
+        if (debugConfig.type === 'lldb') {
+            debugConfig.pid = pid;
+            delete debugConfig.processId;
+        } else if (debugConfig.type === 'cppdbg') {
+            debugConfig.program = config.uePath;
+            debugConfig.processId = String(pid);
+        }
+
+        return this._applyDebuggerDefaults(debugConfig, config);
+    }
+
+    private _applyDebuggerDefaults(debugConfig: vscode.DebugConfiguration, config: BuildConfig): vscode.DebugConfiguration {
+        if (debugConfig.type === 'cppvsdbg') {
+            const engineRootDir = this._configManager.getEngineRoot();
+            const natvisPath = path.join(engineRootDir, 'Engine', 'Extras', 'VisualStudioDebugging', 'Unreal.natvis');
+            if (fs.existsSync(natvisPath)) {
+                debugConfig.visualizerFile = natvisPath;
+            }
+        } else if (debugConfig.type === 'cppdbg') {
+            debugConfig.MIMode = 'gdb';
+            debugConfig.setupCommands = [
+                { description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true }
+            ];
+        }
+
+        return debugConfig;
+    }
+
+    private async _runMultiplayerSession(context: JobContext, request: BuildRequest, options: MultiplayerOptions, log: HistoryRecorder) {
+        const program = getEditorExecutablePath(request.config.uePath, request.platform, request.config.buildConfiguration, false);
+        if (!fs.existsSync(program)) {
+            throw new Error(`可执行文件不存在: ${program}`);
+        }
+
+        const processes = createSessionProcesses(request.config.projectPath, options);
+        if (request.config.buildConfiguration === 'DebugGame') {
+            processes.forEach(spec => spec.args.push('-debug'));
+        }
+
+        const output = this._getMultiplayerOutput();
+        output.clear();
+        output.show(true);
+
+        const platform = getHostPlatform();
+        const running: Promise<void>[] = [];
+        for (const spec of processes) {
+            if (context.isCancelled()) {
+                break;
+            }
+
+            const command = platform.formatCommand(program, spec.args);
+            log.appendLine(`[${spec.name}] ${command}`);
+            output.appendLine(`[${spec.name}] ${command}`);
+            running.push(spec.debug
+                ? this._debugSessionProcess(context, request, program, spec, output)
+                : this._runSessionProcess(context, request, program, spec, output));
 
-            this._debugProcess.stderr?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stderr += text;
-                outputChannel.append(text);
+            if (spec.role === 'server' && processes.length > 1) {
+                await this._delay(context, SERVER_STARTUP_DELAY);
+            }
+        }
+
+        context.progress(50, `多人游戏会话运行中 (${processes.length} 个进程)`);
+        this._logViewerManager.showForLaunch();
+        await Promise.all(running);
+        if (context.isCancelled()) {
+            throw new JobCancelledError(context.label);
+        }
+    }
+
+    // 单个进程退出或失败不影响会话中的其他进程
+    private async _runSessionProcess(context: JobContext, request: BuildRequest, program: string, spec: SessionProcessSpec, output: vscode.OutputChannel) {
+        const prefixer = createLinePrefixer(spec.name, line => output.appendLine(line));
+        try {
+            await context.runProcess(program, spec.args, {
+                cwd: request.projectDir,
+                onOutput: text => prefixer.feed(text)
             });
+            prefixer.flush();
+            output.appendLine(`[${spec.name}] 进程已退出`);
+        } catch (error: any) {
+            prefixer.flush();
+            if (error instanceof JobCancelledError) {
+                output.appendLine(`[${spec.name}] 已停止`);
+            } else if (error instanceof ProcessExitError) {
+                output.appendLine(`[${spec.name}] 进程退出，代码: ${error.code}`);
+            } else {
+                output.appendLine(`[${spec.name}] 启动失败: ${error.message || String(error)}`);
+            }
+        }
+    }
 
-            this._debugProcess.on('close', (code: number) => {
-                this._debugProcess = undefined;
-                
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(`进程退出，代码: ${code}\n${stderr}`));
+    private async _debugSessionProcess(context: JobContext, request: BuildRequest, program: string, spec: SessionProcessSpec, output: vscode.OutputChannel) {
+        const name = `${MULTIPLAYER_SESSION_PREFIX}: ${spec.name}`;
+        const debugConfig = this._applyDebuggerDefaults({
+            name,
+            type: this._getDebuggerType(),
+            request: 'launch',
+            program,
+            args: spec.args,
+            cwd: request.projectDir
+        }, request.config);
+
+        let session: vscode.DebugSession | undefined;
+        let cancelled = false;
+        let onTerminated!: () => void;
+        const terminated = new Promise<void>(resolve => {
+            onTerminated = resolve;
+        });
+        const listeners = [
+            vscode.debug.onDidStartDebugSession(started => {
+                if (started.name === name) {
+                    session = started;
+                    // 会话启动前任务已取消时，启动后立即停止
+                    if (cancelled) {
+                        vscode.debug.stopDebugging(started);
+                    }
                 }
-            });
+            }),
+            vscode.debug.onDidTerminateDebugSession(ended => {
+                if (ended.name === name) {
+                    onTerminated();
+                }
+            })
+        ];
+        context.onCancel(() => {
+            cancelled = true;
+            if (session) {
+                vscode.debug.stopDebugging(session);
+            }
+        });
 
-            this._debugProcess.on('error', (error: Error) => {
-                this._debugProcess = undefined;
-                reject(error);
+        try {
+            if (context.isCancelled()) {
+                return;
+            }
+            const started = await vscode.debug.startDebugging(this._getWorkspaceFolder(), debugConfig);
+            if (!started) {
+                output.appendLine(`[${spec.name}] 无法启动调试会话，请确认已安装支持 ${debugConfig.type} 的调试扩展`);
+                return;
+            }
+            output.appendLine(`[${spec.name}] 已在调试器中启动，输出显示在调试控制台`);
+            await terminated;
+            output.appendLine(`[${spec.name}] 调试会话已结束`);
+        } finally {
+            listeners.forEach(listener => listener.dispose());
+        }
+    }
+
+    private _delay(context: JobContext, ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, ms);
+            context.onCancel(() => {
+                clearTimeout(timer);
+                resolve();
             });
         });
     }
 
-    private _parseProgress(text: string): number {
-        const match = text.match(/(\d+)%/);
-        if (match) {
-            return parseInt(match[1], 10);
+    private _getMultiplayerOutput(): vscode.OutputChannel {
+        if (!this._multiplayerOutput) {
+            this._multiplayerOutput = vscode.window.createOutputChannel('UE Builder 多人游戏');
         }
-        return 0;
+        return this._multiplayerOutput;
+    }
+
+    private _getSettingsLaunchProfiles(): LaunchProfile[] {
+        return vscode.workspace.getConfiguration('ueBuilder').get<LaunchProfile[]>('launchProfiles', []);
+    }
+
+    private _sendMultiplayerOptionsToWebview() {
+        this._view?.webview.postMessage({
+            type: 'multiplayerOptions',
+            options: this.getMultiplayerOptions()
+        });
     }
 
-    private _getProgressMessage(text: string, progress: number): string {
-        if (text.includes('Compiling')) {
-            return '正在编译...';
-        } else if (text.includes('Linking')) {
-            return '正在链接...';
-        } else if (text.includes('Generating')) {
-            return '正在生成...';
+    private _sendLaunchProfilesToWebview() {
+        this._view?.webview.postMessage({
+            type: 'launchProfiles',
+            profiles: this.getLaunchProfiles(),
+            activeProfile: this.getActiveLaunchProfile()
+        });
+    }
+
+    private _createRequest(): BuildRequest | undefined {
+        const validation = this._configManager.validateConfig();
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '配置验证失败');
+            return undefined;
         }
-        return '正在处理...';
+        return this._configManager.createBuildRequest();
+    }
+
+    private _enqueue(
+        operation: HistoryOperation,
+        label: string,
+        successMessage: string,
+        request: BuildRequest,
+        history: Partial<HistoryStartOptions>,
+        body: (context: JobContext, log: HistoryRecorder) => Promise<void>,
+        kind: string = 'debug'
+    ): Job {
+        const historyOptions: HistoryStartOptions = { ...history, operation, label, request };
+        return this._jobRunner.enqueue({
+            label: `${label} (${request.projectName} ${request.target.name} ${request.config.buildConfiguration})`,
+            kind,
+            expectedDuration: this._historyManager.getExpectedDuration(historyOptions),
+            run: async context => {
+                this._diagnosticsManager.begin(context.id, request.config.projectPath);
+                this._view?.webview.postMessage({ type: 'debugStarted', jobId: context.id });
+
+                const log = this._historyManager.start(historyOptions);
+                log.appendLine(`=== ${label} ===`);
+                log.appendLine(`项目: ${request.projectName}`);
+                log.appendLine(`配置: ${request.config.buildConfiguration}`);
+                log.appendLine(`目标: ${request.target.name}`);
+                log.appendLine(`平台: ${request.platform}`);
+                if (history.launchProfile) {
+                    log.appendLine(`启动配置: ${history.launchProfile.name}`);
+                }
+
+                try {
+                    if (!request.config.uePath || !fs.existsSync(request.config.uePath)) {
+                        throw new Error('UE5 编辑器路径未设置或不存在');
+                    }
+
+                    await body(context, log);
+                    context.progress(100, successMessage);
+
+                    log.appendLine(`=== ${successMessage} ===`);
+                    log.finish(this._diagnosticsManager.finish(context.id));
+                    vscode.window.showInformationMessage(successMessage);
+                    this._view?.webview.postMessage({ type: 'debugSuccess', jobId: context.id });
+                } catch (error: any) {
+                    if (error instanceof JobCancelledError) {
+                        log.appendLine('=== 操作已取消 ===');
+                        vscode.window.showInformationMessage('操作已取消');
+                        this._view?.webview.postMessage({ type: 'debugCancelled', jobId: context.id });
+                    } else {
+                        const errorMessage = error.message || String(error);
+                        log.appendLine(`启动失败: ${errorMessage}`);
+                        vscode.window.showErrorMessage('启动失败! 查看输出面板了解详情');
+                        this._view?.webview.postMessage({ type: 'debugFailed', jobId: context.id, error: errorMessage });
+                    }
+                    log.finish(this._diagnosticsManager.finish(context.id), error);
+                    throw error;
+                }
+            }
+        });
     }
 }
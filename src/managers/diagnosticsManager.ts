@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { BuildDiagnostic } from '../utils/buildOutputParser';
+import { JobContext } from '../utils/jobRunner';
+import { BuildEventSink } from '../core/buildCore';
+import { HistoryRecorder } from './historyManager';
+
+// 每个任务单独收集诊断，并行任务互不覆盖
+interface DiagnosticScope {
+    fallbackFile?: string;
+    entries: Map<string, vscode.Diagnostic[]>;
+    finished: boolean;
+}
+
+export class DiagnosticsManager implements vscode.Disposable {
+    private _collection: vscode.DiagnosticCollection;
+    private _scopes: Map<number, DiagnosticScope> = new Map();
+
+    constructor() {
+        this._collection = vscode.languages.createDiagnosticCollection('ue-builder');
+    }
+
+    public dispose() {
+        this._collection.dispose();
+    }
+
+    // 任务开始时清除已结束任务的诊断，运行中的其他任务的诊断保留
+    public begin(jobId: number, fallbackFile?: string) {
+        for (const [id, scope] of this._scopes) {
+            if (scope.finished || id === jobId) {
+                this._scopes.delete(id);
+            }
+        }
+        this._scopes.set(jobId, { fallbackFile, entries: new Map(), finished: false });
+
+        this._collection.clear();
+        this._update(new Set([...this._scopes.values()].flatMap(scope => [...scope.entries.keys()])));
+    }
+
+    // 任务结束后诊断继续显示，直到下一个任务开始；返回该任务的错误和警告数量
+    public finish(jobId: number): { errors: number; warnings: number } {
+        const scope = this._scopes.get(jobId);
+        if (scope) {
+            scope.finished = true;
+        }
+        return this.getCounts(jobId);
+    }
+
+    // 构建核心的事件转发到任务进度、历史记录和问题面板
+    public createEventSink(context: JobContext, log: HistoryRecorder): BuildEventSink {
+        return {
+            progress: (progress, message, detail) => context.progress(progress, message, detail),
+            append: text => log.append(text),
+            appendLine: text => log.appendLine(text),
+            diagnostics: diagnostics => this.add(context.id, diagnostics)
+        };
+    }
+
+    public add(jobId: number, diagnostics: BuildDiagnostic[]) {
+        const scope = this._scopes.get(jobId);
+        if (!scope || diagnostics.length === 0) {
+            return;
+        }
+
+        const touched = new Set<string>();
+        for (const diagnostic of diagnostics) {
+            const file = diagnostic.file || scope.fallbackFile;
+            if (!file) {
+                continue;
+            }
+
+            const line = Math.max(diagnostic.line - 1, 0);
+            const column = Math.max(diagnostic.column - 1, 0);
+            const range = new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+            const entry = new vscode.Diagnostic(range, diagnostic.message, this._toSeverity(diagnostic));
+            entry.source = diagnostic.source;
+            if (diagnostic.code) {
+                entry.code = diagnostic.code;
+            }
+
+            const key = vscode.Uri.file(file).toString();
+            const list = scope.entries.get(key) || [];
+            // UBT 会把同一个头文件的错误在多个编译单元中重复输出
+            if (!list.some(existing => existing.range.isEqual(range) && existing.message === entry.message)) {
+                list.push(entry);
+                scope.entries.set(key, list);
+                touched.add(key);
+            }
+        }
+        this._update(touched);
+    }
+
+    public getCounts(jobId: number): { errors: number; warnings: number } {
+        let errors = 0;
+        let warnings = 0;
+        for (const list of this._scopes.get(jobId)?.entries.values() ?? []) {
+            for (const entry of list) {
+                if (entry.severity === vscode.DiagnosticSeverity.Error) {
+                    errors++;
+                } else if (entry.severity === vscode.DiagnosticSeverity.Warning) {
+                    warnings++;
+                }
+            }
+        }
+        return { errors, warnings };
+    }
+
+    // 问题面板中显示所有任务的诊断
+    private _update(keys: Set<string>) {
+        for (const key of keys) {
+            const entries = [...this._scopes.values()].flatMap(scope => scope.entries.get(key) ?? []);
+            this._collection.set(vscode.Uri.parse(key), entries);
+        }
+    }
+
+    private _toSeverity(diagnostic: BuildDiagnostic): vscode.DiagnosticSeverity {
+        switch (diagnostic.severity) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'warning':
+                return vscode.DiagnosticSeverity.Warning;
+            default:
+                return vscode.DiagnosticSeverity.Information;
+        }
+    }
+}
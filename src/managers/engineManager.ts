@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { getHostPlatform } from '../utils/hostPlatform';
+import {
+    EngineInstallation,
+    discoverEngines,
+    formatEngineVersion,
+    matchesEngineAssociation,
+    readEngineAssociation
+} from '../utils/engineDiscovery';
+
+export class EngineManager {
+    private _engines: EngineInstallation[] = [];
+    private _discovered: boolean = false;
+    private _warnedAssociations: Set<string> = new Set();
+    private _view?: vscode.WebviewView;
+    private _configManager: ConfigManager;
+
+    constructor(configManager: ConfigManager, view?: vscode.WebviewView) {
+        this._configManager = configManager;
+        this._view = view;
+    }
+
+    public setView(view: vscode.WebviewView) {
+        this._view = view;
+    }
+
+    public getEngines(): EngineInstallation[] {
+        return [...this._engines];
+    }
+
+    public async discover(force: boolean = false): Promise<EngineInstallation[]> {
+        if (this._discovered && !force) {
+            return this.getEngines();
+        }
+
+        const workspaceRoots = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        this._engines = await discoverEngines(workspaceRoots);
+        this._discovered = true;
+        console.log('[EngineManager] Discovered engines:', this._engines.map(engine => `${engine.id} ${formatEngineVersion(engine.version)} (${engine.root})`).join(', '));
+        return this.getEngines();
+    }
+
+    public getSelectedEngine(): EngineInstallation | undefined {
+        const uePath = this._configManager.getConfig().uePath;
+        if (!uePath) {
+            return undefined;
+        }
+
+        const engineRoot = path.resolve(this._configManager.getEngineRoot()).toLowerCase();
+        return this._engines.find(engine => path.resolve(engine.root).toLowerCase() === engineRoot);
+    }
+
+    public findEngineForProject(projectPath: string): EngineInstallation | undefined {
+        const association = readEngineAssociation(projectPath);
+        if (!association) {
+            return undefined;
+        }
+        return this._engines.find(engine => matchesEngineAssociation(association, engine));
+    }
+
+    public getEditorPath(engine: EngineInstallation): string {
+        return getHostPlatform().getEditorPath(engine.root);
+    }
+
+    public async selectEngine(root: string): Promise<string | undefined> {
+        const engine = this._engines.find(candidate => candidate.root === root);
+        if (!engine) {
+            vscode.window.showErrorMessage(`未找到引擎: ${root}`);
+            return undefined;
+        }
+
+        const editorPath = this.getEditorPath(engine);
+        await vscode.workspace.getConfiguration('ueBuilder').update('uePath', editorPath, vscode.ConfigurationTarget.Workspace);
+        this._configManager.setUEPath(editorPath);
+        this._warnedAssociations.clear();
+        this.checkEngineAssociation();
+        return editorPath;
+    }
+
+    public checkEngineAssociation(): boolean {
+        const projectPath = this._configManager.getConfig().projectPath;
+        const engine = this.getSelectedEngine();
+        if (!projectPath || !engine) {
+            return true;
+        }
+
+        const association = readEngineAssociation(projectPath);
+        if (matchesEngineAssociation(association, engine)) {
+            return true;
+        }
+
+        const key = `${projectPath}|${engine.root}`;
+        if (!this._warnedAssociations.has(key)) {
+            this._warnedAssociations.add(key);
+            const expected = this.findEngineForProject(projectPath);
+            const message = `项目 EngineAssociation 为 "${association}"，与当前选择的引擎 ${formatEngineVersion(engine.version)} (${engine.root}) 不一致`;
+            if (expected) {
+                vscode.window.showWarningMessage(message, `切换到 ${formatEngineVersion(expected.version)}`).then(action => {
+                    if (action) {
+                        this.selectEngine(expected.root).then(() => this.sendEngines());
+                    }
+                });
+            } else {
+                vscode.window.showWarningMessage(message);
+            }
+        }
+        return false;
+    }
+
+    public sendEngines() {
+        const selected = this.getSelectedEngine();
+        this._view?.webview.postMessage({
+            type: 'engines',
+            engines: this._engines.map(engine => ({
+                id: engine.id,
+                root: engine.root,
+                source: engine.source,
+                version: formatEngineVersion(engine.version)
+            })),
+            selectedRoot: selected?.root || ''
+        });
+    }
+}
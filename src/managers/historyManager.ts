@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BuildRequest } from '../core/buildRequest';
+import { PackageProfile } from '../core/packageCore';
+import { PluginBuildOptions } from '../core/pluginCore';
+import { LaunchProfile } from '../utils/launchProfiles';
+import { MultiplayerOptions } from '../utils/multiplayerSession';
+import { JobCancelledError, ProcessExitError } from '../utils/jobRunner';
+
+export type HistoryOperation =
+    | 'build'
+    | 'cleanSolution'
+    | 'regenerateSolution'
+    | 'generateSolution'
+    | 'generateClangDatabase'
+    | 'startDebug'
+    | 'startWithoutDebug'
+    | 'startMultiplayer'
+    | 'discoverAutomationTests'
+    | 'runAutomationTests'
+    | 'packageProject'
+    | 'buildPlugin';
+
+export type HistoryState = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface HistoryEntry {
+    id: string;
+    operation: HistoryOperation;
+    label: string;
+    projectName: string;
+    target: string;
+    configuration: string;
+    platform: string;
+    startTime: number;
+    endTime?: number;
+    duration?: number;
+    state: HistoryState;
+    exitCode?: number | null;
+    errors: number;
+    warnings: number;
+    error?: string;
+    logFile: string;
+    // 重新运行时使用的配置快照
+    request: BuildRequest;
+    profile?: PackageProfile;
+    launchProfile?: LaunchProfile;
+    multiplayer?: MultiplayerOptions;
+    automationTests?: string[];
+    cleanScopes?: string[];
+    plugin?: PluginBuildOptions;
+}
+
+export interface HistoryStartOptions {
+    operation: HistoryOperation;
+    label: string;
+    request: BuildRequest;
+    profile?: PackageProfile;
+    launchProfile?: LaunchProfile;
+    multiplayer?: MultiplayerOptions;
+    automationTests?: string[];
+    cleanScopes?: string[];
+    plugin?: PluginBuildOptions;
+    // 打包等操作可能覆盖平台和配置
+    platform?: string;
+    configuration?: string;
+}
+
+type HistoryKey = Pick<HistoryEntry, 'operation' | 'projectName' | 'target' | 'configuration' | 'platform'>;
+
+const MAX_HISTORY_ENTRIES = 50;
+const HISTORY_INDEX = 'history.json';
+
+export class HistoryRecorder {
+    private _stream?: fs.WriteStream;
+
+    constructor(
+        private readonly _entry: HistoryEntry,
+        private readonly _outputChannel: vscode.OutputChannel,
+        private readonly _onFinish: (entry: HistoryEntry) => void
+    ) {
+        try {
+            this._stream = fs.createWriteStream(_entry.logFile, { flags: 'a' });
+            this._stream.on('error', error => {
+                console.error('[HistoryManager] Error writing log file:', error);
+                this._stream = undefined;
+            });
+        } catch (error) {
+            console.error('[HistoryManager] Error creating log file:', error);
+        }
+    }
+
+    public append(text: string) {
+        this._outputChannel.append(text);
+        this._stream?.write(text);
+    }
+
+    public appendLine(text: string) {
+        this.append(`${text}\n`);
+    }
+
+    public finish(counts: { errors: number; warnings: number }, error?: unknown) {
+        if (this._entry.state !== 'running') {
+            return;
+        }
+
+        this._entry.endTime = Date.now();
+        this._entry.duration = this._entry.endTime - this._entry.startTime;
+        this._entry.errors = counts.errors;
+        this._entry.warnings = counts.warnings;
+
+        if (!error) {
+            this._entry.state = 'succeeded';
+            this._entry.exitCode = 0;
+        } else if (error instanceof JobCancelledError) {
+            this._entry.state = 'cancelled';
+        } else {
+            this._entry.state = 'failed';
+            this._entry.error = error instanceof Error && error.message ? error.message : String(error);
+            if (error instanceof ProcessExitError) {
+                this._entry.exitCode = error.code;
+            }
+        }
+
+        this._stream?.end();
+        this._stream = undefined;
+        this._onFinish(this._entry);
+    }
+}
+
+export class HistoryManager implements vscode.Disposable {
+    private _entries: HistoryEntry[] = [];
+    private _view?: vscode.WebviewView;
+    private _outputChannel: vscode.OutputChannel;
+    private _storageDir: string;
+    private _loaded: Promise<void>;
+    private _saving: Promise<void> = Promise.resolve();
+
+    constructor(storageUri: vscode.Uri, view?: vscode.WebviewView) {
+        this._storageDir = path.join(storageUri.fsPath, 'history');
+        this._outputChannel = vscode.window.createOutputChannel('UE Builder');
+        this._view = view;
+        this._loaded = this._load();
+    }
+
+    public setView(view: vscode.WebviewView) {
+        this._view = view;
+    }
+
+    public getOutputChannel(): vscode.OutputChannel {
+        return this._outputChannel;
+    }
+
+    public getEntries(): HistoryEntry[] {
+        return this._entries.map(entry => ({ ...entry }));
+    }
+
+    public getEntry(id: string): HistoryEntry | undefined {
+        const entry = this._entries.find(candidate => candidate.id === id);
+        return entry ? { ...entry } : undefined;
+    }
+
+    public load(): Promise<void> {
+        return this._loaded;
+    }
+
+    public start(options: HistoryStartOptions): HistoryRecorder {
+        fs.mkdirSync(this._storageDir, { recursive: true });
+
+        const startTime = Date.now();
+        const id = `${startTime}-${Math.random().toString(36).slice(2, 8)}`;
+        const entry: HistoryEntry = {
+            id,
+            operation: options.operation,
+            label: options.label,
+            projectName: options.request.projectName,
+            target: options.request.target.name,
+            configuration: options.configuration || options.request.config.buildConfiguration,
+            platform: options.platform || options.request.platform,
+            startTime,
+            state: 'running',
+            errors: 0,
+            warnings: 0,
+            logFile: path.join(this._storageDir, `${id}.log`),
+            request: options.request,
+            profile: options.profile,
+            launchProfile: options.launchProfile,
+            multiplayer: options.multiplayer,
+            automationTests: options.automationTests,
+            cleanScopes: options.cleanScopes,
+            plugin: options.plugin
+        };
+
+        this._add(entry);
+
+        this._outputChannel.show(true);
+        return new HistoryRecorder(entry, this._outputChannel, () => {
+            this._save();
+            this.sendHistory();
+        });
+    }
+
+    // 同一操作、目标、配置和平台最近一次成功的耗时，用于估算剩余时间
+    public getExpectedDuration(options: HistoryStartOptions): number | undefined {
+        return this._findDuration(this._entries, {
+            operation: options.operation,
+            projectName: options.request.projectName,
+            target: options.request.target.name,
+            configuration: options.configuration || options.request.config.buildConfiguration,
+            platform: options.platform || options.request.platform
+        });
+    }
+
+    public async openLog(id: string) {
+        const entry = this.getEntry(id);
+        if (!entry || !fs.existsSync(entry.logFile)) {
+            vscode.window.showErrorMessage('日志文件不存在');
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(entry.logFile));
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    public async clear() {
+        await this._loaded;
+        const running = this._entries.filter(entry => entry.state === 'running');
+        for (const entry of this._entries.filter(candidate => candidate.state !== 'running')) {
+            await fs.promises.rm(entry.logFile, { force: true });
+        }
+        this._entries = running;
+        this._save();
+        this.sendHistory();
+    }
+
+    public sendHistory() {
+        this._view?.webview.postMessage({
+            type: 'history',
+            entries: this._entries.map(entry => ({
+                id: entry.id,
+                operation: entry.operation,
+                label: entry.label,
+                projectName: entry.projectName,
+                target: entry.target,
+                configuration: entry.configuration,
+                platform: entry.platform,
+                startTime: entry.startTime,
+                duration: entry.duration,
+                previousDuration: this._getPreviousDuration(entry),
+                state: entry.state,
+                exitCode: entry.exitCode,
+                errors: entry.errors,
+                warnings: entry.warnings,
+                error: entry.error
+            }))
+        });
+    }
+
+    public dispose() {
+        this._outputChannel.dispose();
+    }
+
+    // 同一操作、目标、配置和平台的上一次成功耗时，用于对比
+    private _getPreviousDuration(entry: HistoryEntry): number | undefined {
+        const index = this._entries.indexOf(entry);
+        return this._findDuration(this._entries.slice(index + 1), entry);
+    }
+
+    private _findDuration(entries: HistoryEntry[], key: HistoryKey): number | undefined {
+        const previous = entries.find(candidate =>
+            candidate.state === 'succeeded'
+            && candidate.operation === key.operation
+            && candidate.projectName === key.projectName
+            && candidate.target === key.target
+            && candidate.configuration === key.configuration
+            && candidate.platform === key.platform
+        );
+        return previous?.duration;
+    }
+
+    // 加载完成前修改列表会被加载的记录覆盖或超出数量上限，因此等待加载后再添加
+    private async _add(entry: HistoryEntry) {
+        await this._loaded;
+        this._entries.unshift(entry);
+        await this._prune();
+        this._save();
+        this.sendHistory();
+    }
+
+    private async _load() {
+        try {
+            const content = await fs.promises.readFile(path.join(this._storageDir, HISTORY_INDEX), 'utf8');
+            const entries: HistoryEntry[] = JSON.parse(content);
+            // 窗口重新加载时仍在运行的记录视为已取消
+            this._entries = entries.map(entry => entry.state === 'running' ? { ...entry, state: 'cancelled' as HistoryState } : entry);
+            console.log('[HistoryManager] Loaded history entries:', this._entries.length);
+        } catch {
+            console.log('[HistoryManager] No build history found');
+        }
+    }
+
+    private async _prune() {
+        await this._loaded;
+        const removed = this._entries.slice(MAX_HISTORY_ENTRIES);
+        this._entries = this._entries.slice(0, MAX_HISTORY_ENTRIES);
+        for (const entry of removed) {
+            fs.promises.rm(entry.logFile, { force: true }).catch(() => undefined);
+        }
+    }
+
+    // 加载完成前写入会覆盖已有的历史记录，因此等待加载后再序列化
+    private _save() {
+        this._saving = this._saving.then(() => this._loaded).then(async () => {
+            const content = JSON.stringify(this._entries, null, 2);
+            try {
+                await fs.promises.mkdir(this._storageDir, { recursive: true });
+                await fs.promises.writeFile(path.join(this._storageDir, HISTORY_INDEX), content, 'utf8');
+            } catch (error) {
+                console.error('[HistoryManager] Error saving history:', error);
+            }
+        });
+    }
+}
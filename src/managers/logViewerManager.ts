@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigManager } from './configManager';
+import { LogFileTailer, UELogEntry, UELogParser, listLogFiles } from '../utils/ueLog';
+import { resolveSourcePath } from '../utils/sourcePaths';
+
+// 打开日志时只加载末尾部分，之后增量读取
+const INITIAL_LOG_BYTES = 1024 * 1024;
+
+export class LogViewerManager implements vscode.Disposable {
+    private _panel?: vscode.WebviewPanel;
+    private _configManager: ConfigManager;
+    private _tailer?: LogFileTailer;
+    private _parser = new UELogParser();
+    private _logDir?: string;
+    private _dirWatcher?: vscode.FileSystemWatcher;
+    private _disposables: vscode.Disposable[] = [];
+    // 面板的监听器在面板关闭时释放，重新打开时重新注册
+    private _panelDisposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _extensionUri: vscode.Uri, configManager: ConfigManager) {
+        this._configManager = configManager;
+        this._disposables.push(this._configManager.onDidChangeConfig(() => {
+            // 切换项目后跟踪新项目的日志
+            if (this._panel && this._logDir !== this._getLogDir()) {
+                this.follow();
+            }
+        }));
+    }
+
+    public dispose() {
+        this._stopFollowing();
+        this._panel?.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+
+    public async show(file?: string) {
+        if (!this._configManager.getConfig().projectPath) {
+            vscode.window.showErrorMessage('项目路径未设置');
+            return;
+        }
+
+        if (this._panel) {
+            this._panel.reveal(undefined, true);
+            this.follow(file);
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel('ueBuilderLogViewer', 'UE 日志', { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true }, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [this._extensionUri]
+        });
+        this._panel.webview.html = await this._getHtmlForWebview(this._panel.webview);
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                    this.follow(file);
+                    break;
+                case 'selectLogFile':
+                    this.follow(data.file);
+                    break;
+                case 'refreshLogFiles':
+                    this._sendFiles();
+                    break;
+                case 'openSource':
+                    await this._openSource(data.file, data.line);
+                    break;
+            }
+        }, undefined, this._panelDisposables);
+        this._panel.onDidDispose(() => {
+            this._stopFollowing();
+            this._panel = undefined;
+            this._panelDisposables.forEach(disposable => disposable.dispose());
+            this._panelDisposables = [];
+        }, undefined, this._panelDisposables);
+    }
+
+    // 启动编辑器或游戏后调用；新会话开始时日志轮换由 tailer 检测
+    public async showForLaunch() {
+        if (!vscode.workspace.getConfiguration('ueBuilder').get<boolean>('openLogViewerOnLaunch', true)) {
+            return;
+        }
+        if (this._panel) {
+            this._panel.reveal(undefined, true);
+            return;
+        }
+        await this.show();
+    }
+
+    public follow(file?: string) {
+        if (!this._panel) {
+            return;
+        }
+
+        const logDir = this._getLogDir();
+        const logFile = file || path.join(logDir, `${this._configManager.getProjectName()}.log`);
+        if (this._tailer && this._tailer.file === logFile) {
+            return;
+        }
+
+        this._stopFollowing();
+        this._logDir = logDir;
+        this._watchLogDir(logDir);
+        this._parser.reset();
+        console.log('[LogViewerManager] Following log file:', logFile);
+
+        this._tailer = new LogFileTailer(logFile);
+        this._tailer.on('data', (text: string) => {
+            this._postEntries(this._parser.feed(text));
+        });
+        this._tailer.on('rotated', () => {
+            this._parser.reset();
+            this._panel?.webview.postMessage({ type: 'logRotated', time: Date.now() });
+            this._sendFiles();
+        });
+        this._tailer.on('error', (error: any) => {
+            console.error('[LogViewerManager] Error reading log file:', error);
+        });
+
+        this._panel.title = `UE 日志 - ${path.basename(logFile)}`;
+        this._panel.webview.postMessage({ type: 'logReset', file: logFile, exists: fs.existsSync(logFile) });
+        this._sendFiles();
+        this._tailer.start(INITIAL_LOG_BYTES);
+    }
+
+    private _stopFollowing() {
+        if (this._tailer) {
+            this._tailer.stop();
+            this._tailer.removeAllListeners();
+            this._tailer = undefined;
+        }
+        this._dirWatcher?.dispose();
+        this._dirWatcher = undefined;
+    }
+
+    private _watchLogDir(logDir: string) {
+        // 多个实例同时运行时 UE 会写入 <Project>_2.log 等文件
+        // 以项目目录为基准监听，Saved/Logs 在第一次启动前可能还不存在
+        this._dirWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(path.dirname(path.dirname(logDir))), 'Saved/Logs/*.log'), false, true, false);
+        this._dirWatcher.onDidCreate(() => this._sendFiles());
+        this._dirWatcher.onDidDelete(() => this._sendFiles());
+    }
+
+    private _getLogDir(): string {
+        return path.join(this._configManager.getProjectDir(), 'Saved', 'Logs');
+    }
+
+    private _postEntries(entries: UELogEntry[]) {
+        if (entries.length > 0) {
+            this._panel?.webview.postMessage({ type: 'logEntries', entries });
+        }
+    }
+
+    private _sendFiles() {
+        if (!this._logDir) {
+            return;
+        }
+        this._panel?.webview.postMessage({
+            type: 'logFiles',
+            files: listLogFiles(this._logDir).map(info => ({ name: info.name, path: info.path })),
+            selected: this._tailer?.file
+        });
+    }
+
+    private async _openSource(file: string, line: number) {
+        const uri = await this._resolveSource(file);
+        if (!uri) {
+            vscode.window.showWarningMessage(`找不到文件: ${file}`);
+            return;
+        }
+
+        const position = new vscode.Position(Math.max(line - 1, 0), 0);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    // 找不到时按文件名在工作区中查找
+    private async _resolveSource(file: string): Promise<vscode.Uri | undefined> {
+        const resolved = resolveSourcePath(file, this._configManager.getProjectDir(), this._configManager.getEngineRoot());
+        if (resolved) {
+            return vscode.Uri.file(resolved);
+        }
+
+        const name = path.win32.basename(file);
+        const matches = await vscode.workspace.findFiles(`**/${name}`, undefined, 1);
+        return matches[0];
+    }
+
+    private async _getHtmlForWebview(webview: vscode.Webview) {
+        const htmlPath = vscode.Uri.joinPath(this._extensionUri, 'resources', 'webview', 'logViewer.html');
+        const htmlContent = await vscode.workspace.fs.readFile(htmlPath);
+        let html = Buffer.from(htmlContent).toString('utf8');
+
+        html = html.replace('webview.css', webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'resources', 'webview', 'style.css')).toString());
+
+        return html;
+    }
+}
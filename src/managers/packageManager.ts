@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { HistoryManager, HistoryStartOptions } from './historyManager';
+import { Job, JobCancelledError, JobRunner } from '../utils/jobRunner';
+import { BuildRequest } from '../core/buildRequest';
+import { PackageProfile, createDefaultPackageProfile, getPackageSettings, packageProject } from '../core/packageCore';
+import { mergeNamed } from '../core/teamConfig';
+
+export class PackageManager {
+    private _view?: vscode.WebviewView;
+    private _configManager: ConfigManager;
+    private _diagnosticsManager: DiagnosticsManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+
+    constructor(configManager: ConfigManager, diagnosticsManager: DiagnosticsManager, jobRunner: JobRunner, historyManager: HistoryManager, view?: vscode.WebviewView) {
+        this._configManager = configManager;
+        this._diagnosticsManager = diagnosticsManager;
+        this._jobRunner = jobRunner;
+        this._historyManager = historyManager;
+        this._view = view;
+    }
+
+    public setView(view: vscode.WebviewView) {
+        this._view = view;
+    }
+
+    public isPackaging(): boolean {
+        return this._jobRunner.hasActiveJobsOfKind('package');
+    }
+
+    public getProfiles(): PackageProfile[] {
+        return mergeNamed(this._configManager.getTeamConfig().packageProfiles, this._getSettingsProfiles());
+    }
+
+    public getActiveProfile(): PackageProfile {
+        const activeName = this._configManager.getSetting('activePackageProfile', '');
+        const profiles = this.getProfiles();
+        return profiles.find(profile => profile.name === activeName) || profiles[0] || createDefaultPackageProfile();
+    }
+
+    public async saveProfile(profile: PackageProfile) {
+        const profiles = this._getSettingsProfiles().filter(existing => existing.name !== profile.name);
+        profiles.push(profile);
+
+        const config = vscode.workspace.getConfiguration('ueBuilder');
+        await config.update('packageProfiles', profiles, vscode.ConfigurationTarget.Workspace);
+        await config.update('activePackageProfile', profile.name, vscode.ConfigurationTarget.Workspace);
+        this._sendProfilesToWebview();
+    }
+
+    public async selectProfile(name: string) {
+        await vscode.workspace.getConfiguration('ueBuilder').update('activePackageProfile', name, vscode.ConfigurationTarget.Workspace);
+        this._sendProfilesToWebview();
+    }
+
+    public async deleteProfile(name: string) {
+        const settingsProfiles = this._getSettingsProfiles();
+        if (!settingsProfiles.some(profile => profile.name === name)) {
+            vscode.window.showWarningMessage(`打包配置方案 ${name} 定义在团队配置文件中，请在 ${this._configManager.getTeamConfigFile()} 中修改`);
+            return;
+        }
+
+        const profiles = settingsProfiles.filter(profile => profile.name !== name);
+        await vscode.workspace.getConfiguration('ueBuilder').update('packageProfiles', profiles, vscode.ConfigurationTarget.Workspace);
+        this._sendProfilesToWebview();
+    }
+
+    public async selectOutputDir(): Promise<string | undefined> {
+        const selected = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            title: 'Select Package Output Directory'
+        });
+        return selected?.[0]?.fsPath;
+    }
+
+    public cancelPackage() {
+        if (this.isPackaging()) {
+            console.log('[PackageManager] Cancelling package jobs...');
+            this._jobRunner.cancelKind('package');
+        }
+    }
+
+    public packageProject(profile: PackageProfile = this.getActiveProfile(), request: BuildRequest | undefined = this._createRequest()): Job | undefined {
+        if (!request) {
+            return undefined;
+        }
+        const buildRequest = request;
+
+        const projectPath = buildRequest.config.projectPath;
+        const { platform, configuration, outputDir } = getPackageSettings(buildRequest, profile);
+
+        const historyOptions: HistoryStartOptions = { operation: 'packageProject', label: '打包项目', request: buildRequest, profile, platform, configuration };
+        return this._jobRunner.enqueue({
+            label: `打包项目 (${buildRequest.projectName} ${profile.name} ${platform} ${configuration})`,
+            kind: 'package',
+            expectedDuration: this._historyManager.getExpectedDuration(historyOptions),
+            run: async context => {
+                this._diagnosticsManager.begin(context.id, projectPath);
+                this._view?.webview.postMessage({ type: 'buildStarted', jobId: context.id });
+
+                const log = this._historyManager.start(historyOptions);
+                log.appendLine(`=== 打包项目 ===`);
+                log.appendLine(`项目: ${buildRequest.projectName}`);
+                log.appendLine(`配置方案: ${profile.name}`);
+                log.appendLine(`平台: ${platform}`);
+                log.appendLine(`配置: ${configuration}`);
+                log.appendLine(`输出目录: ${outputDir}`);
+
+                try {
+                    await packageProject(context, buildRequest, profile, this._diagnosticsManager.createEventSink(context, log));
+
+                    log.appendLine('=== 打包完成 ===');
+                    log.finish(this._diagnosticsManager.finish(context.id));
+                    this._view?.webview.postMessage({ type: 'buildSuccess', jobId: context.id });
+
+                    vscode.window.showInformationMessage(`打包完成: ${outputDir}`, '打开输出目录').then(action => {
+                        if (action === '打开输出目录') {
+                            vscode.env.openExternal(vscode.Uri.file(outputDir));
+                        }
+                    });
+                } catch (error: any) {
+                    if (error instanceof JobCancelledError) {
+                        log.appendLine('打包已取消');
+                        vscode.window.showInformationMessage('打包已取消');
+                        this._view?.webview.postMessage({ type: 'buildCancelled', jobId: context.id });
+                    } else {
+                        const errorMessage = error.message || String(error);
+                        log.appendLine(`打包失败: ${errorMessage}`);
+                        vscode.window.showErrorMessage('打包失败! 查看输出面板了解详情');
+                        this._view?.webview.postMessage({ type: 'buildFailed', jobId: context.id, error: errorMessage });
+                    }
+                    log.finish(this._diagnosticsManager.finish(context.id), error);
+                    throw error;
+                }
+            }
+        });
+    }
+
+    public sendProfiles() {
+        this._sendProfilesToWebview();
+    }
+
+    private _createRequest(): BuildRequest | undefined {
+        const validation = this._configManager.validateConfig();
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '配置验证失败');
+            return undefined;
+        }
+        return this._configManager.createBuildRequest();
+    }
+
+    private _getSettingsProfiles(): PackageProfile[] {
+        return vscode.workspace.getConfiguration('ueBuilder').get<PackageProfile[]>('packageProfiles', []);
+    }
+
+    private _sendProfilesToWebview() {
+        this._view?.webview.postMessage({
+            type: 'packageProfiles',
+            profiles: this.getProfiles(),
+            activeProfile: this.getActiveProfile()
+        });
+    }
+}
@@ -0,0 +1,433 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigManager } from './configManager';
+import { EngineManager } from './engineManager';
+import { DiagnosticsManager } from './diagnosticsManager';
+import { HistoryManager, HistoryStartOptions } from './historyManager';
+import { BuildRequest, createBuildRequest } from '../core/buildRequest';
+import { PluginBuildOptions, buildPlugin, getDefaultPluginOutputDir } from '../core/pluginCore';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { Job, JobCancelledError, JobRunner } from '../utils/jobRunner';
+import { TARGET_PLATFORMS } from '../utils/targetPlatforms';
+import { formatEngineVersion } from '../utils/engineDiscovery';
+import {
+    MissingPluginDependency,
+    PluginDependency,
+    PluginInfo,
+    PluginModule,
+    PluginSource,
+    PluginState,
+    discoverPlugins,
+    findMissingDependencies,
+    readProjectPluginReferences,
+    resolvePluginStates,
+    setProjectPluginEnabled
+} from '../utils/plugins';
+
+// 修改 .uplugin 或 .uproject 时可能连续触发多次
+const REFRESH_DELAY = 500;
+
+type PluginTreeNode =
+    | { kind: 'group'; source: PluginSource }
+    | { kind: 'plugin'; plugin: PluginInfo }
+    | { kind: 'section'; plugin: PluginInfo; section: 'modules' | 'dependencies' }
+    | { kind: 'module'; plugin: PluginInfo; module: PluginModule }
+    | { kind: 'dependency'; plugin: PluginInfo; dependency: PluginDependency };
+
+export class PluginManager implements vscode.TreeDataProvider<PluginTreeNode>, vscode.Disposable {
+    private _configManager: ConfigManager;
+    private _engineManager: EngineManager;
+    private _diagnosticsManager: DiagnosticsManager;
+    private _jobRunner: JobRunner;
+    private _historyManager: HistoryManager;
+    private _plugins: PluginInfo[] = [];
+    private _states: Map<string, PluginState> = new Map();
+    private _missing: MissingPluginDependency[] = [];
+    private _warnedMissing: string = '';
+    private _loadedKey?: string;
+    private _refreshTimer?: NodeJS.Timeout;
+    private _disposables: vscode.Disposable[] = [];
+    private _onDidChangeTreeData = new vscode.EventEmitter<PluginTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(configManager: ConfigManager, engineManager: EngineManager, diagnosticsManager: DiagnosticsManager, jobRunner: JobRunner, historyManager: HistoryManager) {
+        this._configManager = configManager;
+        this._engineManager = engineManager;
+        this._diagnosticsManager = diagnosticsManager;
+        this._jobRunner = jobRunner;
+        this._historyManager = historyManager;
+
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.{uplugin,uproject}');
+        const scheduleRefresh = () => this._scheduleRefresh();
+        this._disposables.push(
+            vscode.window.createTreeView('ueBuilderPlugins', { treeDataProvider: this, showCollapseAll: true }),
+            watcher,
+            watcher.onDidChange(scheduleRefresh),
+            watcher.onDidCreate(scheduleRefresh),
+            watcher.onDidDelete(scheduleRefresh),
+            this._configManager.onDidChangeConfig(() => {
+                if (this._loadedKey !== this._getLoadKey()) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        if (this._refreshTimer) {
+            clearTimeout(this._refreshTimer);
+            this._refreshTimer = undefined;
+        }
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public async refresh() {
+        const config = this._configManager.getConfig();
+        const key = this._getLoadKey();
+        this._loadedKey = key;
+
+        let plugins: PluginInfo[] = [];
+        if (config.projectPath) {
+            const projectPlugins = await discoverPlugins(path.join(this._configManager.getProjectDir(), 'Plugins'), 'project');
+            const engineRoot = config.uePath ? this._configManager.getEngineRoot() : undefined;
+            const enginePlugins = engineRoot ? await discoverPlugins(path.join(engineRoot, 'Engine', 'Plugins'), 'engine') : [];
+            // 同名时项目插件优先
+            const projectNames = new Set(projectPlugins.map(plugin => plugin.name.toLowerCase()));
+            plugins = [...projectPlugins, ...enginePlugins.filter(plugin => !projectNames.has(plugin.name.toLowerCase()))];
+        }
+
+        // 刷新期间切换了项目或引擎时丢弃结果
+        if (key !== this._getLoadKey()) {
+            return;
+        }
+
+        const references = config.projectPath ? readProjectPluginReferences(config.projectPath) : [];
+        this._plugins = plugins;
+        this._states = resolvePluginStates(plugins, references);
+        this._missing = findMissingDependencies(plugins, references, this._states);
+        console.log('[PluginManager] Discovered plugins:', plugins.length, 'missing dependencies:', this._missing.length);
+        this._onDidChangeTreeData.fire(undefined);
+        this._warnMissingDependencies();
+    }
+
+    public getTreeItem(node: PluginTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'group': {
+                const plugins = this._plugins.filter(plugin => plugin.source === node.source);
+                const enabled = plugins.filter(plugin => this._states.get(plugin.name)?.enabled).length;
+                const item = new vscode.TreeItem(
+                    node.source === 'project' ? '项目插件' : '引擎插件',
+                    node.source === 'project' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.id = `group:${node.source}`;
+                item.description = `${enabled}/${plugins.length} 已启用`;
+                item.iconPath = new vscode.ThemeIcon(node.source === 'project' ? 'folder-library' : 'library');
+                return item;
+            }
+            case 'plugin': {
+                const { plugin } = node;
+                const state = this._states.get(plugin.name);
+                const missing = this._missing.filter(entry => entry.plugin === plugin.name);
+                const item = new vscode.TreeItem(plugin.friendlyName, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `plugin:${plugin.file}`;
+                item.description = [
+                    plugin.versionName,
+                    state?.enabled ? (state.enabledBy ? `由 ${state.enabledBy} 启用` : '已启用') : '未启用'
+                ].filter(Boolean).join(' · ');
+                item.tooltip = [
+                    plugin.friendlyName !== plugin.name ? `${plugin.friendlyName} (${plugin.name})` : plugin.name,
+                    plugin.description,
+                    plugin.category ? `分类: ${plugin.category}` : '',
+                    plugin.createdBy ? `作者: ${plugin.createdBy}` : '',
+                    missing.length > 0 ? `缺少依赖: ${missing.map(entry => entry.dependency).join(', ')}` : '',
+                    plugin.file
+                ].filter(Boolean).join('\n');
+                if (missing.length > 0) {
+                    item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('editorWarning.foreground'));
+                } else {
+                    item.iconPath = new vscode.ThemeIcon(state?.enabled ? 'plug' : 'circle-slash');
+                }
+                item.contextValue = state?.enabled ? 'plugin.enabled' : 'plugin.disabled';
+                item.command = {
+                    command: 'vscode.open',
+                    title: '打开插件描述文件',
+                    arguments: [vscode.Uri.file(plugin.file)]
+                };
+                return item;
+            }
+            case 'section': {
+                const count = node.section === 'modules' ? node.plugin.modules.length : node.plugin.dependencies.length;
+                const item = new vscode.TreeItem(node.section === 'modules' ? '模块' : '依赖', vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `${node.section}:${node.plugin.file}`;
+                item.description = String(count);
+                item.iconPath = new vscode.ThemeIcon(node.section === 'modules' ? 'symbol-module' : 'references');
+                return item;
+            }
+            case 'module': {
+                const item = new vscode.TreeItem(node.module.name, vscode.TreeItemCollapsibleState.None);
+                item.id = `module:${node.plugin.file}:${node.module.name}`;
+                item.description = [node.module.type, node.module.loadingPhase].filter(Boolean).join(' · ');
+                item.iconPath = new vscode.ThemeIcon('symbol-module');
+                return item;
+            }
+            case 'dependency': {
+                const { dependency } = node;
+                const target = this._findPlugin(dependency.name);
+                const item = new vscode.TreeItem(dependency.name, vscode.TreeItemCollapsibleState.None);
+                item.id = `dependency:${node.plugin.file}:${dependency.name}`;
+                if (!target) {
+                    item.description = dependency.optional ? '未找到（可选）' : '未找到';
+                    item.iconPath = new vscode.ThemeIcon(dependency.optional ? 'question' : 'error', dependency.optional ? undefined : new vscode.ThemeColor('errorForeground'));
+                } else {
+                    item.description = [
+                        target.source === 'project' ? '项目插件' : '引擎插件',
+                        dependency.optional ? '可选' : '',
+                        dependency.enabled ? '' : '不启用'
+                    ].filter(Boolean).join(' · ');
+                    item.iconPath = new vscode.ThemeIcon('plug');
+                    item.command = {
+                        command: 'vscode.open',
+                        title: '打开插件描述文件',
+                        arguments: [vscode.Uri.file(target.file)]
+                    };
+                }
+                return item;
+            }
+        }
+    }
+
+    public getChildren(node?: PluginTreeNode): PluginTreeNode[] {
+        if (!node) {
+            if (!this._configManager.getConfig().projectPath) {
+                return [];
+            }
+            const groups: PluginTreeNode[] = [{ kind: 'group', source: 'project' }];
+            if (this._plugins.some(plugin => plugin.source === 'engine')) {
+                groups.push({ kind: 'group', source: 'engine' });
+            }
+            return groups;
+        }
+
+        switch (node.kind) {
+            case 'group':
+                return this._plugins
+                    .filter(plugin => plugin.source === node.source)
+                    .map(plugin => ({ kind: 'plugin', plugin }));
+            case 'plugin': {
+                const sections: PluginTreeNode[] = [];
+                if (node.plugin.modules.length > 0) {
+                    sections.push({ kind: 'section', plugin: node.plugin, section: 'modules' });
+                }
+                if (node.plugin.dependencies.length > 0) {
+                    sections.push({ kind: 'section', plugin: node.plugin, section: 'dependencies' });
+                }
+                return sections;
+            }
+            case 'section':
+                return node.section === 'modules'
+                    ? node.plugin.modules.map(module => ({ kind: 'module', plugin: node.plugin, module }))
+                    : node.plugin.dependencies.map(dependency => ({ kind: 'dependency', plugin: node.plugin, dependency }));
+            default:
+                return [];
+        }
+    }
+
+    public async setEnabled(node: PluginTreeNode | undefined, enabled: boolean) {
+        const plugin = node?.kind === 'plugin' ? node.plugin : await this._pickPlugin(enabled ? '选择要启用的插件' : '选择要禁用的插件', candidate => !!this._states.get(candidate.name)?.enabled !== enabled);
+        const projectPath = this._configManager.getConfig().projectPath;
+        if (!plugin || !projectPath) {
+            return;
+        }
+
+        if (!enabled) {
+            const dependents = this._plugins.filter(candidate => candidate !== plugin
+                && this._states.get(candidate.name)?.enabled
+                && candidate.dependencies.some(dependency => dependency.name.toLowerCase() === plugin.name.toLowerCase() && dependency.enabled && !dependency.optional));
+            if (dependents.length > 0) {
+                vscode.window.showWarningMessage(`插件 ${plugin.name} 被以下已启用的插件依赖，禁用后仍会随其加载: ${dependents.map(candidate => candidate.name).join(', ')}`);
+            }
+        }
+
+        try {
+            const content = await fs.promises.readFile(projectPath, 'utf8');
+            await fs.promises.writeFile(projectPath, setProjectPluginEnabled(content, plugin.name, enabled), 'utf8');
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`修改 ${path.basename(projectPath)} 失败: ${error.message || String(error)}`);
+            return;
+        }
+
+        console.log('[PluginManager] Plugin', plugin.name, enabled ? 'enabled' : 'disabled');
+        vscode.window.showInformationMessage(`已${enabled ? '启用' : '禁用'}插件 ${plugin.name}，重新生成项目文件并编译后生效`);
+        await this.refresh();
+    }
+
+    public async buildPlugin(node?: PluginTreeNode, request?: BuildRequest, options?: PluginBuildOptions): Promise<Job | undefined> {
+        if (!request || !options) {
+            const plugin = node?.kind === 'plugin' ? node.plugin : await this._pickPlugin('选择要编译的插件', candidate => candidate.source === 'project');
+            if (!plugin) {
+                return undefined;
+            }
+            request = await this._pickEngineRequest();
+            if (!request) {
+                return undefined;
+            }
+            const platforms = await this._pickPlatforms(request.platform);
+            if (!platforms) {
+                return undefined;
+            }
+            options = {
+                pluginFile: plugin.file,
+                platforms,
+                outputDir: getDefaultPluginOutputDir(request.projectDir, plugin.file)
+            };
+        }
+
+        const buildRequest = request;
+        const buildOptions = options;
+        const pluginName = path.basename(buildOptions.pluginFile, '.uplugin');
+        const historyOptions: HistoryStartOptions = {
+            operation: 'buildPlugin',
+            label: `编译插件 ${pluginName}`,
+            request: buildRequest,
+            plugin: buildOptions,
+            platform: buildOptions.platforms.join('+')
+        };
+        return this._jobRunner.enqueue({
+            label: `编译插件 (${pluginName} ${buildOptions.platforms.join('+')})`,
+            kind: 'build',
+            expectedDuration: this._historyManager.getExpectedDuration(historyOptions),
+            run: async context => {
+                this._diagnosticsManager.begin(context.id, buildRequest.config.projectPath);
+                const log = this._historyManager.start(historyOptions);
+                log.appendLine('=== 编译插件 ===');
+                log.appendLine(`插件: ${buildOptions.pluginFile}`);
+                log.appendLine(`引擎: ${buildRequest.engineRoot}`);
+                log.appendLine(`平台: ${buildOptions.platforms.join(', ')}`);
+
+                try {
+                    await buildPlugin(context, buildRequest, buildOptions, this._diagnosticsManager.createEventSink(context, log));
+
+                    log.appendLine('=== 编译插件完成 ===');
+                    log.finish(this._diagnosticsManager.finish(context.id));
+                    vscode.window.showInformationMessage(`插件 ${pluginName} 编译完成`, '打开输出目录').then(action => {
+                        if (action === '打开输出目录') {
+                            vscode.env.openExternal(vscode.Uri.file(buildOptions.outputDir));
+                        }
+                    });
+                } catch (error: any) {
+                    if (error instanceof JobCancelledError) {
+                        log.appendLine('=== 操作已取消 ===');
+                        vscode.window.showInformationMessage('操作已取消');
+                    } else {
+                        const errorMessage = error.message || String(error);
+                        log.appendLine(`编译插件失败: ${errorMessage}`);
+                        vscode.window.showErrorMessage('编译插件失败! 查看输出面板了解详情');
+                        if (this._diagnosticsManager.getCounts(context.id).errors > 0) {
+                            vscode.commands.executeCommand('workbench.actions.view.problems');
+                        }
+                    }
+                    log.finish(this._diagnosticsManager.finish(context.id), error);
+                    throw error;
+                }
+            }
+        });
+    }
+
+    private _getLoadKey(): string {
+        const config = this._configManager.getConfig();
+        return `${config.projectPath}|${config.uePath}`;
+    }
+
+    private _scheduleRefresh() {
+        if (this._refreshTimer) {
+            clearTimeout(this._refreshTimer);
+        }
+        this._refreshTimer = setTimeout(() => {
+            this._refreshTimer = undefined;
+            this.refresh();
+        }, REFRESH_DELAY);
+    }
+
+    private _findPlugin(name: string): PluginInfo | undefined {
+        return this._plugins.find(plugin => plugin.name.toLowerCase() === name.toLowerCase());
+    }
+
+    // 缺少的依赖有变化时才提示
+    private _warnMissingDependencies() {
+        const messages = this._missing.map(entry => entry.plugin
+            ? `${entry.plugin} 依赖的 ${entry.dependency}`
+            : `.uproject 中启用的 ${entry.dependency}`);
+        const key = messages.join('|');
+        if (key === this._warnedMissing) {
+            return;
+        }
+        this._warnedMissing = key;
+        if (messages.length === 0) {
+            return;
+        }
+
+        vscode.window.showWarningMessage(`未找到插件: ${messages.join('、')}`, '查看插件').then(action => {
+            if (action === '查看插件') {
+                vscode.commands.executeCommand('ueBuilderPlugins.focus');
+            }
+        });
+    }
+
+    private async _pickPlugin(placeHolder: string, filter: (plugin: PluginInfo) => boolean): Promise<PluginInfo | undefined> {
+        if (this._plugins.length === 0) {
+            await this.refresh();
+        }
+        const items = this._plugins.filter(filter).map(plugin => ({
+            label: plugin.friendlyName,
+            description: [plugin.name, plugin.versionName, plugin.source === 'project' ? '项目插件' : '引擎插件'].filter(Boolean).join(' · '),
+            plugin
+        }));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('没有可选的插件');
+            return undefined;
+        }
+        return (await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true }))?.plugin;
+    }
+
+    // 默认使用当前引擎，可以选择其他已安装的引擎为插件编译
+    private async _pickEngineRequest(): Promise<BuildRequest | undefined> {
+        const validation = this._configManager.validateConfig();
+        if (!validation.valid) {
+            vscode.window.showErrorMessage(validation.error || '配置验证失败');
+            return undefined;
+        }
+
+        const request = this._configManager.createBuildRequest();
+        const engines = (await this._engineManager.discover()).filter(engine => path.resolve(engine.root) !== path.resolve(request.engineRoot));
+        if (engines.length === 0) {
+            return request;
+        }
+
+        const current = this._engineManager.getSelectedEngine();
+        const items = [
+            { label: `当前引擎 ${current ? formatEngineVersion(current.version) : ''}`.trim(), description: request.engineRoot, uePath: request.config.uePath },
+            ...engines.map(engine => ({ label: `UE ${formatEngineVersion(engine.version)}`, description: engine.root, uePath: this._engineManager.getEditorPath(engine) }))
+        ];
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择编译插件使用的引擎' });
+        if (!selected) {
+            return undefined;
+        }
+        return selected.uePath === request.config.uePath
+            ? request
+            : createBuildRequest({ ...request.config, uePath: selected.uePath }, request.target, request.platform, request.hooks);
+    }
+
+    private async _pickPlatforms(defaultPlatform: string): Promise<string[] | undefined> {
+        const items = TARGET_PLATFORMS
+            .filter(info => info.hosts.includes(getHostPlatform().name))
+            .map(info => ({ label: info.name, picked: info.name === defaultPlatform }));
+        const selected = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: '选择插件的目标平台' });
+        if (!selected || selected.length === 0) {
+            return undefined;
+        }
+        return selected.map(item => item.label);
+    }
+}
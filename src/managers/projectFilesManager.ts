@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { ProjectFileStatus, checkProjectFiles, formatProjectFileChange } from '../core/projectFiles';
+
+// 切换分支等操作会同时修改多个文件，合并为一次检查
+const CHECK_DELAY = 1000;
+// 提示和面板中最多列出的变更文件数量
+const MAX_LISTED_CHANGES = 10;
+
+export type UpdateProjectFilesMode = 'prompt' | 'auto' | 'never';
+
+export interface ProjectFilesChangeEvent {
+    // 本次合并检查的变更文件
+    files: string[];
+    status: ProjectFileStatus;
+}
+
+export class ProjectFilesManager implements vscode.Disposable {
+    private _configManager: ConfigManager;
+    private _view?: vscode.WebviewView;
+    private _projectPath: string = '';
+    private _status: ProjectFileStatus = { stale: false, changes: [] };
+    private _checkTimer?: NodeJS.Timeout;
+    private _changedFiles = new Set<string>();
+    private _disposables: vscode.Disposable[] = [];
+    private _onDidChangeFiles = new vscode.EventEmitter<ProjectFilesChangeEvent>();
+    public readonly onDidChangeFiles = this._onDidChangeFiles.event;
+
+    constructor(configManager: ConfigManager, view?: vscode.WebviewView) {
+        this._configManager = configManager;
+        this._view = view;
+
+        const buildFileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{uproject,uplugin,Build.cs,Target.cs}');
+        // 源文件只关心新增和删除
+        const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/Source/**/*.{h,hpp,inl,c,cc,cpp}', false, true, false);
+        const onFileChanged = (uri: vscode.Uri) => this._onFileChanged(uri);
+        this._disposables.push(
+            buildFileWatcher,
+            buildFileWatcher.onDidChange(onFileChanged),
+            buildFileWatcher.onDidCreate(onFileChanged),
+            buildFileWatcher.onDidDelete(onFileChanged),
+            sourceWatcher,
+            sourceWatcher.onDidCreate(onFileChanged),
+            sourceWatcher.onDidDelete(onFileChanged),
+            this._configManager.onDidChangeConfig(config => {
+                if (config.projectPath !== this._projectPath) {
+                    this.check();
+                }
+            })
+        );
+    }
+
+    public setView(view: vscode.WebviewView) {
+        this._view = view;
+        this.sendStatus();
+    }
+
+    public dispose() {
+        if (this._checkTimer) {
+            clearTimeout(this._checkTimer);
+            this._checkTimer = undefined;
+        }
+        this._onDidChangeFiles.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+
+    public getStatus(): ProjectFileStatus {
+        return this._status;
+    }
+
+    public async check(): Promise<ProjectFileStatus> {
+        const projectPath = this._configManager.getConfig().projectPath;
+        this._projectPath = projectPath;
+
+        let status: ProjectFileStatus = { stale: false, changes: [] };
+        if (projectPath) {
+            try {
+                status = await checkProjectFiles(projectPath);
+            } catch (error) {
+                console.error('[ProjectFilesManager] Error checking project files:', error);
+            }
+        }
+
+        // 检查期间切换了项目时丢弃结果
+        if (projectPath === this._configManager.getConfig().projectPath) {
+            if (status.stale !== this._status.stale) {
+                console.log('[ProjectFilesManager] Project files stale:', status.stale, status.changes.map(formatProjectFileChange).join(', '));
+            }
+            this._status = status;
+            this.sendStatus();
+        }
+        return status;
+    }
+
+    // 返回 true 表示编译前先生成项目文件，undefined 表示取消编译
+    public async confirmUpdateBeforeBuild(projectPath: string): Promise<boolean | undefined> {
+        const config = vscode.workspace.getConfiguration('ueBuilder');
+        const mode = config.get<UpdateProjectFilesMode>('updateProjectFilesBeforeBuild', 'prompt');
+        if (mode === 'never') {
+            return false;
+        }
+
+        const status = projectPath === this._configManager.getConfig().projectPath
+            ? await this.check()
+            : await checkProjectFiles(projectPath);
+        if (!status.stale) {
+            return false;
+        }
+        if (mode === 'auto') {
+            return true;
+        }
+
+        const selection = await vscode.window.showWarningMessage(
+            `项目文件已过期（${this._formatSummary(status)}），是否在编译前重新生成项目文件？`,
+            { modal: true, detail: this._formatChanges(status) },
+            '生成项目文件并编译',
+            '直接编译',
+            '总是自动生成'
+        );
+        if (selection === '总是自动生成') {
+            await config.update('updateProjectFilesBeforeBuild', 'auto', vscode.ConfigurationTarget.Workspace);
+            return true;
+        }
+        if (selection === '直接编译') {
+            return false;
+        }
+        return selection ? true : undefined;
+    }
+
+    public sendStatus() {
+        this._view?.webview.postMessage({
+            type: 'projectFilesStatus',
+            stale: this._status.stale,
+            summary: this._formatSummary(this._status),
+            changes: this._formatChanges(this._status)
+        });
+    }
+
+    private _onFileChanged(uri: vscode.Uri) {
+        const projectPath = this._configManager.getConfig().projectPath;
+        if (!projectPath || !uri.fsPath.startsWith(path.dirname(projectPath) + path.sep)) {
+            return;
+        }
+        // 编译和运行产生的文件不影响项目文件
+        const relative = path.relative(path.dirname(projectPath), uri.fsPath).split(path.sep);
+        if (relative.some(part => part === 'Intermediate' || part === 'Binaries' || part === 'Saved')) {
+            return;
+        }
+
+        this._changedFiles.add(uri.fsPath);
+        if (this._checkTimer) {
+            clearTimeout(this._checkTimer);
+        }
+        this._checkTimer = setTimeout(async () => {
+            this._checkTimer = undefined;
+            const files = [...this._changedFiles];
+            this._changedFiles.clear();
+            const status = await this.check();
+            this._onDidChangeFiles.fire({ files, status });
+        }, CHECK_DELAY);
+    }
+
+    private _formatSummary(status: ProjectFileStatus): string {
+        const count = status.changes.length;
+        return count === 1 ? formatProjectFileChange(status.changes[0]) : `${count} 个文件已变更`;
+    }
+
+    private _formatChanges(status: ProjectFileStatus): string {
+        const lines = status.changes.slice(0, MAX_LISTED_CHANGES).map(formatProjectFileChange);
+        if (status.changes.length > MAX_LISTED_CHANGES) {
+            lines.push(`... 另外 ${status.changes.length - MAX_LISTED_CHANGES} 个文件`);
+        }
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getHostPlatform } from '../utils/hostPlatform';
+
+export interface UEProject {
+    name: string;
+    path: string;
+    dir: string;
+    folder?: vscode.WorkspaceFolder;
+}
+
+const ACTIVE_FOLDER_KEY = 'ueBuilder.activeFolder';
+
+export class ProjectManager {
+    private _projects: UEProject[] = [];
+    private _view?: vscode.WebviewView;
+    private _state: vscode.Memento;
+
+    constructor(state: vscode.Memento, view?: vscode.WebviewView) {
+        this._state = state;
+        this._view = view;
+    }
+
+    public setView(view: vscode.WebviewView) {
+        this._view = view;
+    }
+
+    public getProjects(): UEProject[] {
+        return [...this._projects];
+    }
+
+    public async discoverProjects(): Promise<UEProject[]> {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const projects: UEProject[] = [];
+
+        for (const folder of folders) {
+            try {
+                const files = await getHostPlatform().findFiles(folder.uri.fsPath, '.uproject');
+                for (const file of files) {
+                    projects.push(this._createProject(file, folder));
+                }
+            } catch (error) {
+                console.error('[ProjectManager] Error searching for UE projects:', error);
+            }
+        }
+
+        this._projects = projects;
+        console.log('[ProjectManager] Discovered projects:', projects.map(project => project.path).join(', '));
+        return this.getProjects();
+    }
+
+    public getActiveFolder(): vscode.WorkspaceFolder | undefined {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const stored = this._state.get<string>(ACTIVE_FOLDER_KEY);
+        return folders.find(folder => folder.uri.toString() === stored) || folders[0];
+    }
+
+    public getConfiguredProjectPath(folder: vscode.WorkspaceFolder | undefined = this.getActiveFolder()): string {
+        return vscode.workspace.getConfiguration('ueBuilder', folder?.uri).get<string>('projectPath', '');
+    }
+
+    public findDefaultProject(): UEProject | undefined {
+        const folder = this.getActiveFolder();
+        return this._projects.find(project => project.folder?.uri.toString() === folder?.uri.toString()) || this._projects[0];
+    }
+
+    public getProjectForFile(uri: vscode.Uri): UEProject | undefined {
+        if (uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const filePath = this._normalize(uri.fsPath);
+        let owner: UEProject | undefined;
+        for (const project of this._projects) {
+            const projectDir = this._normalize(project.dir) + path.sep;
+            if (filePath.startsWith(projectDir) && (!owner || project.dir.length > owner.dir.length)) {
+                owner = project;
+            }
+        }
+        return owner;
+    }
+
+    public async setActiveProject(projectPath: string) {
+        const uri = vscode.Uri.file(projectPath);
+        const folder = vscode.workspace.getWorkspaceFolder(uri) || this.getActiveFolder();
+        const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
+
+        if (folder) {
+            await this._state.update(ACTIVE_FOLDER_KEY, folder.uri.toString());
+        }
+
+        // 多根工作区中按文件夹分别保存当前项目
+        await vscode.workspace.getConfiguration('ueBuilder', folder?.uri).update(
+            'projectPath',
+            projectPath,
+            multiRoot && folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace
+        );
+        console.log('[ProjectManager] Active project set to:', projectPath);
+    }
+
+    public async pickProject(): Promise<UEProject | undefined> {
+        const projects = this._projects.length > 0 ? this._projects : await this.discoverProjects();
+        if (projects.length === 0) {
+            vscode.window.showWarningMessage('工作区中未找到 .uproject 文件');
+            return undefined;
+        }
+
+        const activePath = this._normalize(this.getConfiguredProjectPath());
+        const items = projects.map(project => ({
+            label: project.name,
+            description: this._normalize(project.path) === activePath ? '当前项目' : undefined,
+            detail: project.folder ? path.relative(project.folder.uri.fsPath, project.path) : project.path,
+            project
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择要使用的 UE 项目' });
+        if (!selected) {
+            return undefined;
+        }
+
+        await this.setActiveProject(selected.project.path);
+        return selected.project;
+    }
+
+    public sendProjects(activeProjectPath: string) {
+        const active = this._normalize(activeProjectPath);
+        this._view?.webview.postMessage({
+            type: 'projects',
+            projects: this._projects.map(project => ({
+                name: project.name,
+                path: project.path,
+                folder: project.folder?.name
+            })),
+            activeProject: this._projects.find(project => this._normalize(project.path) === active)?.path || activeProjectPath
+        });
+    }
+
+    public sendActiveFileProject(editor: vscode.TextEditor | undefined, activeProjectPath: string) {
+        const project = editor ? this.getProjectForFile(editor.document.uri) : undefined;
+        this._view?.webview.postMessage({
+            type: 'activeFileProject',
+            project: project ? {
+                name: project.name,
+                path: project.path,
+                isActive: this._normalize(project.path) === this._normalize(activeProjectPath)
+            } : undefined
+        });
+    }
+
+    private _createProject(file: string, folder?: vscode.WorkspaceFolder): UEProject {
+        return {
+            name: path.basename(file, '.uproject'),
+            path: file,
+            dir: path.dirname(file),
+            folder
+        };
+    }
+
+    private _normalize(filePath: string): string {
+        const resolved = path.resolve(filePath);
+        return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+    }
+}
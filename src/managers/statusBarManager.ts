@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { JobInfo, JobRunner } from '../utils/jobRunner';
+
+export class StatusBarManager implements vscode.Disposable {
+    private _item: vscode.StatusBarItem;
+    private _configManager: ConfigManager;
+    private _jobRunner: JobRunner;
+    private _disposables: vscode.Disposable[] = [];
+    private _onJobsUpdated = () => this.update();
+
+    constructor(configManager: ConfigManager, jobRunner: JobRunner) {
+        this._configManager = configManager;
+        this._jobRunner = jobRunner;
+        this._item = vscode.window.createStatusBarItem('ueBuilder.status', vscode.StatusBarAlignment.Left, 50);
+        this._item.name = 'UE Builder';
+
+        this._disposables.push(this._configManager.onDidChangeConfig(() => this.update()));
+        this._jobRunner.on('changed', this._onJobsUpdated);
+        this._jobRunner.on('progress', this._onJobsUpdated);
+        this.update();
+    }
+
+    public update() {
+        const config = this._configManager.getConfig();
+        if (!config.projectPath) {
+            this._item.hide();
+            return;
+        }
+
+        const running = this._getRunningJob();
+        if (running) {
+            const queued = this._jobRunner.getJobs().filter(job => job.state === 'queued').length;
+            const progress = running.progress > 0 ? ` ${Math.round(running.progress)}%` : '';
+            this._item.text = `$(sync~spin) ${running.label}${progress}${queued > 0 ? ` (+${queued})` : ''}`;
+            this._item.tooltip = `${running.label}\n${running.message || ''}\n点击取消全部任务`;
+            this._item.command = 'ueBuilder.cancel';
+        } else {
+            const target = this._configManager.getActiveTarget();
+            this._item.text = `$(tools) ${this._configManager.getProjectName()} | ${target.name} | ${config.buildConfiguration} | ${this._configManager.getPlatform()}`;
+            this._item.tooltip = `UE 项目: ${config.projectPath}\n点击切换项目`;
+            this._item.command = 'ueBuilder.selectProject';
+        }
+        this._item.show();
+    }
+
+    public dispose() {
+        this._jobRunner.off('changed', this._onJobsUpdated);
+        this._jobRunner.off('progress', this._onJobsUpdated);
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+        this._item.dispose();
+    }
+
+    private _getRunningJob(): JobInfo | undefined {
+        const running = this._jobRunner.getJobs().filter(job => job.state === 'running');
+        return running.find(job => !job.parallel) || running[0];
+    }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { UECommandAction, UECommandOptions, getCookArgs, getUBTArgs } from '../utils/ubtCommands';
+
+export const UE_TASK_TYPE = 'ue';
+
+export const UE_PROBLEM_MATCHERS = ['$ue-msvc', '$ue-clang', '$ue-ubt'];
+
+export interface UETaskDefinition extends vscode.TaskDefinition {
+    action: UECommandAction;
+    target?: string;
+    platform?: string;
+    configuration?: string;
+    project?: string;
+    args?: string[];
+}
+
+const TASK_GROUPS: Partial<Record<UECommandAction, vscode.TaskGroup>> = {
+    build: vscode.TaskGroup.Build,
+    rebuild: vscode.TaskGroup.Rebuild,
+    clean: vscode.TaskGroup.Clean
+};
+
+export class TaskManager implements vscode.TaskProvider {
+    private _configManager: ConfigManager;
+    private _ready: Promise<void> = Promise.resolve();
+
+    constructor(configManager: ConfigManager) {
+        this._configManager = configManager;
+    }
+
+    // onTaskType:ue 激活扩展后会立即解析任务，此时配置可能还没有加载
+    public setReady(ready: Promise<unknown>) {
+        this._ready = ready.then(() => undefined, () => undefined);
+    }
+
+    public async provideTasks(): Promise<vscode.Task[]> {
+        await this._ready;
+        const config = this._configManager.getConfig();
+        if (!config.uePath || !config.projectPath) {
+            return [];
+        }
+
+        const activeTarget = this._configManager.getActiveTarget();
+        const targets = this._configManager.getTargets();
+        const definitions: UETaskDefinition[] = [];
+
+        for (const target of targets.length > 0 ? targets : [activeTarget]) {
+            definitions.push({ type: UE_TASK_TYPE, action: 'build', target: target.name });
+        }
+        definitions.push(
+            { type: UE_TASK_TYPE, action: 'rebuild', target: activeTarget.name },
+            { type: UE_TASK_TYPE, action: 'clean', target: activeTarget.name },
+            { type: UE_TASK_TYPE, action: 'generate' },
+            { type: UE_TASK_TYPE, action: 'cook' }
+        );
+
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(config.projectPath));
+        return definitions.map(definition => this._createTask(definition, folder || vscode.TaskScope.Workspace));
+    }
+
+    public async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+        const definition = task.definition as UETaskDefinition;
+        if (definition.type !== UE_TASK_TYPE || !definition.action) {
+            return undefined;
+        }
+
+        await this._ready;
+        const config = this._configManager.getConfig();
+        if (!config.uePath || (!config.projectPath && !definition.project)) {
+            console.log('[TaskManager] Cannot resolve task without engine or project path:', task.name);
+            vscode.window.showErrorMessage(`无法运行任务 ${task.name}: UE 引擎路径或项目路径未设置`);
+            return undefined;
+        }
+
+        const scope = task.scope ?? vscode.TaskScope.Workspace;
+        return this._createTask(definition, scope, task.name);
+    }
+
+    private _createTask(definition: UETaskDefinition, scope: vscode.WorkspaceFolder | vscode.TaskScope, name?: string): vscode.Task {
+        const options = this._getCommandOptions(definition, scope);
+        const projectDir = path.dirname(options.projectPath);
+        const engineRoot = this._configManager.getEngineRoot();
+        const platform = getHostPlatform();
+
+        const executable = definition.action === 'cook' ? platform.getUATScript(engineRoot) : platform.getBuildScript(engineRoot);
+        const args = definition.action === 'cook' ? getCookArgs(options) : getUBTArgs(definition.action, options);
+
+        const task = new vscode.Task(
+            definition,
+            scope,
+            name || this._getTaskName(definition.action, options),
+            UE_TASK_TYPE,
+            this._createExecution(executable, args, projectDir),
+            UE_PROBLEM_MATCHERS
+        );
+
+        const group = TASK_GROUPS[definition.action];
+        if (group) {
+            task.group = group;
+        }
+        task.detail = platform.formatCommand(executable, args);
+        return task;
+    }
+
+    private _getCommandOptions(definition: UETaskDefinition, scope: vscode.WorkspaceFolder | vscode.TaskScope): UECommandOptions {
+        const config = this._configManager.getConfig();
+        let projectPath = definition.project || config.projectPath;
+        if (!path.isAbsolute(projectPath) && typeof scope === 'object') {
+            projectPath = path.join(scope.uri.fsPath, projectPath);
+        }
+
+        // 生成项目文件默认使用 Editor 目标、主机平台和 Development 配置，与面板中的操作一致
+        const generate = definition.action === 'generate';
+        return {
+            target: definition.target || (generate ? `${path.basename(projectPath, '.uproject')}Editor` : this._configManager.getActiveTarget().name),
+            platform: definition.platform || (generate ? getHostPlatform().name : this._configManager.getPlatform()),
+            configuration: definition.configuration || (generate ? 'Development' : config.buildConfiguration),
+            projectPath,
+            extraArgs: definition.args
+        };
+    }
+
+    private _getTaskName(action: UECommandAction, options: UECommandOptions): string {
+        switch (action) {
+            case 'generate':
+                return 'generate project files';
+            case 'cook':
+                return `cook ${options.platform} ${options.configuration}`;
+            default:
+                return `${action} ${options.target} ${options.platform} ${options.configuration}`;
+        }
+    }
+
+    private _createExecution(executable: string, args: string[], cwd: string): vscode.ShellExecution | vscode.ProcessExecution {
+        // .bat 需要通过 shell 执行，.sh 通过 bash 执行，与 HostPlatform.spawnProcess 一致
+        if (/\.(bat|cmd)$/i.test(executable)) {
+            return new vscode.ShellExecution(executable, args, { cwd });
+        }
+        if (executable.endsWith('.sh')) {
+            return new vscode.ProcessExecution('bash', [executable, ...args], { cwd });
+        }
+        return new vscode.ProcessExecution(executable, args, { cwd });
+    }
+}
@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildOutputParser, parseBuildOutput, parseBuildOutputLine } from '../utils/buildOutputParser';
+
+// 编译后位于 out/test，日志样本保留在源码目录中
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+test('parses MSVC, UHT and linker diagnostics from a Windows build log', () => {
+    const diagnostics = parseBuildOutput(readFixture('msvc.txt'));
+    assert.deepStrictEqual(diagnostics, [
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Public\\Weapon.h',
+            line: 42,
+            column: 0,
+            severity: 'error',
+            code: undefined,
+            message: 'Unrecognized type \'FAmmoInfo\' - type must be a UCLASS, USTRUCT, UENUM, or global delegate.',
+            source: 'UHT'
+        },
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Private\\Weapon.cpp',
+            line: 120,
+            column: 17,
+            severity: 'error',
+            code: 'C2065',
+            message: '\'Ammo\': undeclared identifier',
+            source: 'MSVC'
+        },
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Private\\Weapon.cpp',
+            line: 133,
+            column: 0,
+            severity: 'warning',
+            code: 'C4996',
+            message: '\'FVector::Size\': Please use Length() instead',
+            source: 'MSVC'
+        },
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Private\\Weapon.cpp',
+            line: 120,
+            column: 17,
+            severity: 'info',
+            code: undefined,
+            message: 'see declaration of \'Ammo\'',
+            source: 'MSVC'
+        },
+        {
+            line: 0,
+            column: 0,
+            severity: 'error',
+            code: 'LNK2019',
+            message: 'Module.ShooterGame.cpp.obj: unresolved external symbol "public: void __cdecl AWeapon::Reload(void)" (?Reload@AWeapon@@QEAAXXZ) referenced in function "public: virtual void __cdecl AShooterCharacter::OnReload(void)"',
+            source: 'MSVC'
+        },
+        {
+            line: 0,
+            column: 0,
+            severity: 'warning',
+            code: 'LNK4044',
+            message: 'unrecognized option \'/foo\'; ignored',
+            source: 'MSVC'
+        },
+        {
+            line: 0,
+            column: 0,
+            severity: 'error',
+            code: 'LNK1120',
+            message: 'D:\\Projects\\ShooterGame\\Binaries\\Win64\\UnrealEditor-ShooterGame.dll: 1 unresolved externals',
+            source: 'MSVC'
+        }
+    ]);
+});
+
+test('parses clang diagnostics with warning flags', () => {
+    const diagnostics = parseBuildOutput(readFixture('clang.txt'));
+    assert.deepStrictEqual(diagnostics, [
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Private/Weapon.cpp',
+            line: 120,
+            column: 17,
+            severity: 'error',
+            code: undefined,
+            message: 'use of undeclared identifier \'Ammo\'',
+            source: 'Clang'
+        },
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Private/Weapon.cpp',
+            line: 133,
+            column: 5,
+            severity: 'warning',
+            code: '-Wdeprecated-declarations',
+            message: '\'Size\' is deprecated: Please use Length() instead',
+            source: 'Clang'
+        },
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Public/Weapon.h',
+            line: 30,
+            column: 7,
+            severity: 'info',
+            code: undefined,
+            message: '\'Size\' has been explicitly marked deprecated here',
+            source: 'Clang'
+        }
+    ]);
+});
+
+test('parses UBT and UHT log diagnostics', () => {
+    const diagnostics = parseBuildOutput(readFixture('ubt.txt'));
+    assert.deepStrictEqual(diagnostics, [
+        {
+            line: 0,
+            column: 0,
+            severity: 'error',
+            message: 'Unable to find target \'ShooterServer\'',
+            source: 'UBT'
+        },
+        {
+            line: 0,
+            column: 0,
+            severity: 'warning',
+            message: 'Visual Studio 2019 is deprecated',
+            source: 'UBT'
+        },
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Public/Weapon.h',
+            line: 42,
+            column: 0,
+            severity: 'error',
+            message: 'Unrecognized type \'FAmmoInfo\'',
+            source: 'UHT'
+        },
+        {
+            line: 0,
+            column: 0,
+            severity: 'warning',
+            message: 'Missing category specifier on UPROPERTY',
+            source: 'UHT'
+        }
+    ]);
+});
+
+test('ignores progress and summary lines', () => {
+    for (const line of ['[1/4] Compile [x64] Module.ShooterGame.cpp', '2 errors generated.', 'Result: Failed (OtherCompilationError)', '']) {
+        assert.strictEqual(parseBuildOutputLine(line), undefined, line);
+    }
+});
+
+test('joins lines split across output chunks', () => {
+    const parser = new BuildOutputParser();
+    const line = '/home/dev/Game/Source/Foo.cpp:12:5: error: expected \';\'\n';
+    assert.deepStrictEqual(parser.feed(line.slice(0, 20)), []);
+    assert.deepStrictEqual(parser.feed(line.slice(20, 40)), []);
+    assert.strictEqual(parser.feed(line.slice(40)).length, 1);
+    assert.strictEqual(parser.diagnostics[0].message, 'expected \';\'');
+});
+
+test('resolves relative paths against the base directory', () => {
+    const baseDir = path.resolve('/work/Game');
+    const [diagnostic] = parseBuildOutput('Source/Foo.cpp:3:1: error: boom', baseDir);
+    assert.strictEqual(diagnostic.file, path.join(baseDir, 'Source', 'Foo.cpp'));
+});
@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createBuildRequest } from '../core/buildRequest';
+import { BuildEventSink, compile } from '../core/buildCore';
+import { BuildDiagnostic } from '../utils/buildOutputParser';
+import { createProcessLauncher, getHostPlatform } from '../utils/hostPlatform';
+import { JobCancelledError, JobContext, JobRunner, ProcessExitError } from '../utils/jobRunner';
+import { getUBTArgs } from '../utils/ubtCommands';
+
+// 代替 Build.sh：记录参数，按 mode 文件决定成功、失败或一直运行
+const STUB_BUILD_SCRIPT = `#!/bin/bash
+dir="$(dirname "$0")"
+printf '%s\\n' "$@" > "$dir/args.txt"
+case "$(cat "$dir/mode")" in
+    fail)
+        echo "Source/Weapon.cpp:12:5: error: use of undeclared identifier 'Ammo'"
+        exit 6
+        ;;
+    hang)
+        sleep 30 &
+        echo $! > "$dir/child.pid"
+        wait
+        ;;
+esac
+echo "[1/1] Link UnrealEditor-Game.so"
+`;
+
+interface StubEngine {
+    root: string;
+    script: string;
+    projectPath: string;
+}
+
+function createStubEngine(): StubEngine {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ue-stub-'));
+    const script = getHostPlatform().getBuildScript(root);
+    fs.mkdirSync(path.dirname(script), { recursive: true });
+    fs.writeFileSync(script, STUB_BUILD_SCRIPT);
+    const projectPath = path.join(root, 'Game', 'Game.uproject');
+    fs.mkdirSync(path.dirname(projectPath));
+    fs.writeFileSync(projectPath, '{}');
+    return { root, script, projectPath };
+}
+
+function readStub(engine: StubEngine, name: string): string {
+    return fs.readFileSync(path.join(path.dirname(engine.script), name), 'utf8');
+}
+
+function createSink(lines: string[], diagnostics: BuildDiagnostic[]): BuildEventSink {
+    return {
+        progress: () => undefined,
+        append: text => lines.push(text),
+        appendLine: text => lines.push(`${text}\n`),
+        diagnostics: items => diagnostics.push(...items)
+    };
+}
+
+function runCompile(runner: JobRunner, engine: StubEngine, mode: string, lines: string[] = [], diagnostics: BuildDiagnostic[] = []) {
+    fs.writeFileSync(path.join(path.dirname(engine.script), 'mode'), mode);
+    const request = createBuildRequest({
+        uePath: getHostPlatform().getEditorPath(engine.root),
+        projectPath: engine.projectPath,
+        buildConfiguration: 'Development',
+        buildTarget: 'GameEditor',
+        platform: getHostPlatform().name
+    }, { name: 'GameEditor', type: 'Editor' }, getHostPlatform().name);
+    return runner.enqueue({ label: 'compile', run: (context: JobContext) => compile(context, request, createSink(lines, diagnostics)) });
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function waitFor(condition: () => boolean, timeout: number = 5000) {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        assert.ok(Date.now() < deadline, 'timed out');
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+const posixOnly = { skip: process.platform === 'win32' ? 'Build.sh 只在 Linux 和 macOS 上使用' : false };
+
+test('compile runs the engine Build.sh with the UBT arguments', posixOnly, async () => {
+    const engine = createStubEngine();
+    try {
+        const lines: string[] = [];
+        await runCompile(new JobRunner(createProcessLauncher()), engine, 'ok', lines).done;
+
+        assert.strictEqual(engine.script, path.join(engine.root, 'Engine', 'Build', 'BatchFiles', getHostPlatform().name, 'Build.sh'));
+        assert.deepStrictEqual(readStub(engine, 'args.txt').trim().split('\n'), getUBTArgs('build', {
+            target: 'GameEditor',
+            platform: getHostPlatform().name,
+            configuration: 'Development',
+            projectPath: engine.projectPath
+        }));
+        assert.ok(lines.includes('[1/1] Link UnrealEditor-Game.so\n'));
+    } finally {
+        fs.rmSync(engine.root, { recursive: true, force: true });
+    }
+});
+
+test('a failing Build.sh rejects with its exit code and reports diagnostics', posixOnly, async () => {
+    const engine = createStubEngine();
+    try {
+        const diagnostics: BuildDiagnostic[] = [];
+        const job = runCompile(new JobRunner(createProcessLauncher()), engine, 'fail', [], diagnostics);
+
+        await assert.rejects(job.done, (error: unknown) => error instanceof ProcessExitError && error.code === 6);
+        assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.file, diagnostic.severity]), [
+            [path.join(path.dirname(engine.projectPath), 'Source', 'Weapon.cpp'), 'error']
+        ]);
+    } finally {
+        fs.rmSync(engine.root, { recursive: true, force: true });
+    }
+});
+
+test('cancelling a compile kills the Build.sh process group', posixOnly, async () => {
+    const engine = createStubEngine();
+    try {
+        const runner = new JobRunner(createProcessLauncher());
+        const job = runCompile(runner, engine, 'hang');
+        const childPidFile = path.join(path.dirname(engine.script), 'child.pid');
+        await waitFor(() => fs.existsSync(childPidFile) && readStub(engine, 'child.pid').trim() !== '');
+        const childPid = parseInt(readStub(engine, 'child.pid'), 10);
+        assert.ok(isRunning(childPid));
+
+        runner.cancelAll();
+        await assert.rejects(job.done, JobCancelledError);
+        // 脚本启动的子进程在同一进程组中，一起被结束
+        await waitFor(() => !isRunning(childPid));
+    } finally {
+        fs.rmSync(engine.root, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { JobCancelledError, JobRunner, ProcessExitError, ProcessHandle, ProcessLauncher } from '../utils/jobRunner';
+
+// 不启动真实进程，由测试决定何时输出和退出
+class FakeProcess extends EventEmitter implements ProcessHandle {
+    public stdout = new EventEmitter();
+    public stderr = new EventEmitter();
+
+    constructor(public readonly pid: number, public readonly executable: string) {
+        super();
+    }
+
+    public exit(code: number | null) {
+        this.emit('close', code);
+    }
+}
+
+class FakeLauncher implements ProcessLauncher {
+    public processes: FakeProcess[] = [];
+    public killed: number[] = [];
+    private _nextPid: number = 1000;
+
+    public spawn(executable: string): FakeProcess {
+        const process = new FakeProcess(this._nextPid++, executable);
+        this.processes.push(process);
+        return process;
+    }
+
+    // 与真实进程一样，被终止后以非零代码退出
+    public kill(pid: number) {
+        this.killed.push(pid);
+        this.processes.find(process => process.pid === pid)?.exit(null);
+    }
+}
+
+function flush(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+test('runs queued jobs one at a time and forwards process output', async () => {
+    const launcher = new FakeLauncher();
+    const runner = new JobRunner(launcher);
+    const output: string[] = [];
+
+    const first = runner.enqueue({ label: 'first', run: context => context.runProcess('build', [], { cwd: '/', onOutput: text => output.push(text) }) });
+    const second = runner.enqueue({ label: 'second', run: context => context.runProcess('cook', [], { cwd: '/' }) });
+    await flush();
+    assert.deepStrictEqual(launcher.processes.map(process => process.executable), ['build']);
+    assert.deepStrictEqual(runner.getJobs().map(job => job.state), ['running', 'queued']);
+
+    launcher.processes[0].stdout.emit('data', Buffer.from('[1/2] Compile Foo.cpp\n'));
+    launcher.processes[0].exit(0);
+    await first.done;
+    await flush();
+    assert.deepStrictEqual(output, ['[1/2] Compile Foo.cpp\n']);
+    assert.deepStrictEqual(launcher.processes.map(process => process.executable), ['build', 'cook']);
+
+    launcher.processes[1].stderr.emit('data', 'fatal\n');
+    launcher.processes[1].exit(3);
+    await assert.rejects(second.done, (error: unknown) => error instanceof ProcessExitError && error.code === 3 && error.stderr === 'fatal\n');
+    assert.deepStrictEqual(runner.getJobs().map(job => job.state), ['succeeded', 'failed']);
+});
+
+test('cancelAll kills running processes and cancels queued jobs without starting them', async () => {
+    const launcher = new FakeLauncher();
+    const runner = new JobRunner(launcher);
+    let cancelListenerCalled = false;
+
+    const running = runner.enqueue({
+        label: 'build',
+        run: async context => {
+            context.onCancel(() => {
+                cancelListenerCalled = true;
+            });
+            await context.runProcess('build', [], { cwd: '/' });
+        }
+    });
+    const parallel = runner.enqueue({ label: 'log tail', parallel: true, run: context => context.runProcess('tail', [], { cwd: '/' }) });
+    const queued = runner.enqueue({ label: 'package', run: context => context.runProcess('package', [], { cwd: '/' }) });
+    await flush();
+    assert.deepStrictEqual(launcher.processes.map(process => process.executable), ['build', 'tail']);
+
+    runner.cancelAll();
+    await assert.rejects(running.done, JobCancelledError);
+    await assert.rejects(parallel.done, JobCancelledError);
+    await assert.rejects(queued.done, JobCancelledError);
+    await flush();
+
+    assert.deepStrictEqual(launcher.killed.sort(), launcher.processes.map(process => process.pid).sort());
+    assert.deepStrictEqual(launcher.processes.map(process => process.executable), ['build', 'tail']);
+    assert.ok(cancelListenerCalled);
+    assert.ok(runner.getJobs().every(job => job.state === 'cancelled'));
+    assert.strictEqual(runner.hasActiveJobs(), false);
+});
+
+test('a cancelled job does not start further processes', async () => {
+    const launcher = new FakeLauncher();
+    const runner = new JobRunner(launcher);
+
+    const job = runner.enqueue({
+        label: 'regenerate',
+        run: async context => {
+            await context.runProcess('clean', [], { cwd: '/' }).catch(() => undefined);
+            await context.runProcess('generate', [], { cwd: '/' });
+        }
+    });
+    await flush();
+
+    runner.cancel(job.info.id);
+    await assert.rejects(job.done, JobCancelledError);
+    assert.deepStrictEqual(launcher.processes.map(process => process.executable), ['clean']);
+});
+
+test('keeps only the end of stderr in the exit error', async () => {
+    const launcher = new FakeLauncher();
+    const runner = new JobRunner(launcher);
+
+    const job = runner.enqueue({ label: 'cook', run: context => context.runProcess('uat', [], { cwd: '/' }) });
+    await flush();
+    for (let i = 0; i < 10000; i++) {
+        launcher.processes[0].stderr.emit('data', `Warning: line ${i}\n`);
+    }
+    launcher.processes[0].exit(1);
+
+    await assert.rejects(job.done, (error: unknown) => {
+        assert.ok(error instanceof ProcessExitError);
+        assert.ok(error.stderr.length <= 4096);
+        assert.ok(error.stderr.startsWith('Warning: line '));
+        assert.ok(error.stderr.endsWith('Warning: line 9999\n'));
+        return true;
+    });
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { PackagePhaseParser } from '../core/packageCore';
+
+const UAT_OUTPUT = [
+    '********** BUILD COMMAND STARTED **********',
+    'Running: UnrealBuildTool ShooterGame Win64 Development',
+    '********** COOK COMMAND STARTED **********',
+    'LogCook: Display: Cooked packages 120',
+    '********** STAGE COMMAND STARTED **********',
+    '********** PACKAGE COMMAND STARTED **********',
+    ''
+].join('\r\n');
+
+test('advances through BuildCookRun phases', () => {
+    const parser = new PackagePhaseParser();
+    const phases = UAT_OUTPUT.split('\n').map(line => parser.feed(`${line}\n`)?.progress).filter(progress => progress !== undefined);
+    assert.deepStrictEqual(phases, [10, 30, 60, 80]);
+});
+
+test('finds markers split across output chunks', () => {
+    const parser = new PackagePhaseParser();
+    const marker = UAT_OUTPUT.indexOf('COOK COMMAND');
+    const lineEnd = UAT_OUTPUT.indexOf('\n', marker) + 1;
+    assert.strictEqual(parser.feed(UAT_OUTPUT.slice(0, marker + 4))?.progress, 10);
+    assert.deepStrictEqual(parser.feed(UAT_OUTPUT.slice(marker + 4, lineEnd)), { progress: 30, message: '正在烘焙内容...' });
+    assert.strictEqual(parser.feed(UAT_OUTPUT.slice(lineEnd))?.progress, 80);
+    assert.strictEqual(parser.flush(), undefined);
+});
+
+test('never moves back to an earlier phase', () => {
+    const parser = new PackagePhaseParser();
+    assert.strictEqual(parser.feed('STAGE COMMAND STARTED\n')?.progress, 60);
+    assert.strictEqual(parser.feed('BUILD COMMAND STARTED\n'), undefined);
+    assert.strictEqual(parser.feed('ARCHIVE COMMAND STARTED')?.progress, undefined);
+    assert.strictEqual(parser.flush()?.progress, 90);
+});
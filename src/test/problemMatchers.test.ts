@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+const FIXTURES_DIR = path.join(ROOT_DIR, 'src', 'test', 'fixtures');
+
+interface ProblemPattern {
+    name: string;
+    regexp: string;
+    file: number;
+    line: number;
+    column?: number;
+    severity?: number;
+    code?: number;
+    message: number;
+}
+
+const PATTERNS: ProblemPattern[] = JSON.parse(fs.readFileSync(path.join(ROOT_DIR, 'package.json'), 'utf8')).contributes.problemPatterns;
+
+// 按 VS Code 的方式用 package.json 中的正则匹配一行输出
+function matchLine(name: string, line: string): Record<string, string | undefined> | undefined {
+    const pattern = PATTERNS.find(candidate => candidate.name === name);
+    assert.ok(pattern, `problem pattern ${name}`);
+    const match = new RegExp(pattern.regexp).exec(line);
+    if (!match) {
+        return undefined;
+    }
+    const result: Record<string, string | undefined> = {};
+    for (const key of ['file', 'line', 'column', 'severity', 'code', 'message'] as const) {
+        const index = pattern[key];
+        if (index !== undefined) {
+            result[key] = match[index];
+        }
+    }
+    return result;
+}
+
+function matchFixture(name: string, fixture: string): Record<string, string | undefined>[] {
+    return fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8')
+        .split(/\r?\n/)
+        .map(line => matchLine(name, line))
+        .filter((result): result is Record<string, string | undefined> => !!result);
+}
+
+test('$ue-msvc matches compiler and UHT errors and warnings', () => {
+    assert.deepStrictEqual(matchFixture('ue-msvc', 'msvc.txt'), [
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Public\\Weapon.h',
+            line: '42',
+            column: undefined,
+            severity: 'Error',
+            code: undefined,
+            message: 'Unrecognized type \'FAmmoInfo\' - type must be a UCLASS, USTRUCT, UENUM, or global delegate.'
+        },
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Private\\Weapon.cpp',
+            line: '120',
+            column: '17',
+            severity: 'error',
+            code: 'C2065',
+            message: '\'Ammo\': undeclared identifier'
+        },
+        {
+            file: 'D:\\Projects\\ShooterGame\\Source\\ShooterGame\\Private\\Weapon.cpp',
+            line: '133',
+            column: undefined,
+            severity: 'warning',
+            code: 'C4996',
+            message: '\'FVector::Size\': Please use Length() instead'
+        }
+    ]);
+});
+
+test('$ue-clang matches errors and warnings but not notes', () => {
+    assert.deepStrictEqual(matchFixture('ue-clang', 'clang.txt'), [
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Private/Weapon.cpp',
+            line: '120',
+            column: '17',
+            severity: 'error',
+            code: undefined,
+            message: 'use of undeclared identifier \'Ammo\''
+        },
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Private/Weapon.cpp',
+            line: '133',
+            column: '5',
+            severity: 'warning',
+            code: '-Wdeprecated-declarations',
+            message: '\'Size\' is deprecated: Please use Length() instead'
+        }
+    ]);
+});
+
+test('$ue-ubt matches UHT errors with a location', () => {
+    assert.deepStrictEqual(matchFixture('ue-ubt', 'ubt.txt'), [
+        {
+            file: '/home/dev/ShooterGame/Source/ShooterGame/Public/Weapon.h',
+            line: '42',
+            column: undefined,
+            severity: 'Error',
+            message: 'Unrecognized type \'FAmmoInfo\''
+        }
+    ]);
+});
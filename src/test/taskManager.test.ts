@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Module = require('module');
+import { BuildConfig, createBuildRequest } from '../core/buildRequest';
+import { BuildEventSink, compile, generateProjectFiles } from '../core/buildCore';
+import { getHostPlatform } from '../utils/hostPlatform';
+import { JobContext, RunProcessOptions } from '../utils/jobRunner';
+import { ProjectTarget } from '../utils/projectTargets';
+import type { UETaskDefinition } from '../managers/taskManager';
+
+// TaskManager 只用到 vscode 中构造任务的几个类，测试中不需要扩展宿主
+class FakeProcessExecution {
+    constructor(public readonly process: string, public readonly args: string[], public readonly options: { cwd: string }) {}
+}
+
+class FakeShellExecution {
+    constructor(public readonly command: string, public readonly args: string[], public readonly options: { cwd: string }) {}
+}
+
+class FakeTask {
+    public group?: unknown;
+    public detail?: string;
+
+    constructor(
+        public readonly definition: UETaskDefinition,
+        public readonly scope: unknown,
+        public readonly name: string,
+        public readonly source: string,
+        public readonly execution: FakeProcessExecution | FakeShellExecution
+    ) {}
+}
+
+const fakeVscode = {
+    Task: FakeTask,
+    ProcessExecution: FakeProcessExecution,
+    ShellExecution: FakeShellExecution,
+    TaskGroup: { Build: 'build', Rebuild: 'rebuild', Clean: 'clean' },
+    TaskScope: { Workspace: 2 },
+    window: { showErrorMessage: () => undefined }
+};
+
+const loader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const originalLoad = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? fakeVscode : originalLoad.call(this, request, ...rest);
+};
+const { TaskManager } = require('../managers/taskManager') as typeof import('../managers/taskManager');
+
+interface Command {
+    executable: string;
+    args: string[];
+    cwd: string;
+}
+
+function createStubEngine(): { root: string; config: BuildConfig; target: ProjectTarget } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ue-task-'));
+    const script = getHostPlatform().getBuildScript(root);
+    fs.mkdirSync(path.dirname(script), { recursive: true });
+    fs.writeFileSync(script, '');
+    const projectPath = path.join(root, 'Game', 'Game.uproject');
+    fs.mkdirSync(path.dirname(projectPath));
+    fs.writeFileSync(projectPath, '{}');
+
+    const target: ProjectTarget = { name: 'Game', type: 'Game' };
+    const config: BuildConfig = {
+        uePath: getHostPlatform().getEditorPath(root),
+        projectPath,
+        buildConfiguration: 'Shipping',
+        buildTarget: target.name,
+        platform: getHostPlatform().name
+    };
+    return { root, config, target };
+}
+
+// 记录构建核心启动的进程，按 HostPlatform.spawnProcess 的方式展开 .sh 和 .bat
+async function runCore(run: (context: JobContext, sink: BuildEventSink) => Promise<unknown>): Promise<Command> {
+    const commands: Command[] = [];
+    const context: JobContext = {
+        id: 1,
+        label: 'test',
+        isCancelled: () => false,
+        onCancel: () => undefined,
+        progress: () => undefined,
+        runProcess: async (executable: string, args: string[], options: RunProcessOptions) => {
+            commands.push(executable.endsWith('.sh')
+                ? { executable: 'bash', args: [executable, ...args], cwd: options.cwd }
+                : { executable, args, cwd: options.cwd });
+        }
+    };
+    const sink: BuildEventSink = { progress: () => undefined, append: () => undefined, appendLine: () => undefined, diagnostics: () => undefined };
+    await run(context, sink);
+    assert.strictEqual(commands.length, 1);
+    return commands[0];
+}
+
+async function runTask(engine: ReturnType<typeof createStubEngine>, definition: UETaskDefinition): Promise<Command> {
+    const configManager = {
+        getConfig: () => engine.config,
+        getEngineRoot: () => engine.root,
+        getActiveTarget: () => engine.target,
+        getTargets: () => [engine.target],
+        getPlatform: () => engine.config.platform
+    };
+    const manager = new TaskManager(configManager as any);
+    const task = await manager.resolveTask({ definition, scope: fakeVscode.TaskScope.Workspace, name: definition.action } as any) as unknown as FakeTask;
+    const execution = task.execution;
+    return execution instanceof FakeProcessExecution
+        ? { executable: execution.process, args: execution.args, cwd: execution.options.cwd }
+        : { executable: execution.command, args: execution.args, cwd: execution.options.cwd };
+}
+
+test('the build task runs the same command as a panel build', async () => {
+    const engine = createStubEngine();
+    try {
+        const request = createBuildRequest(engine.config, engine.target, engine.config.platform);
+        const core = await runCore((context, sink) => compile(context, request, sink));
+        assert.deepStrictEqual(await runTask(engine, { type: 'ue', action: 'build' }), core);
+    } finally {
+        fs.rmSync(engine.root, { recursive: true, force: true });
+    }
+});
+
+test('the generate task runs the same command as generating project files from the panel', async () => {
+    const engine = createStubEngine();
+    try {
+        const request = createBuildRequest(engine.config, engine.target, engine.config.platform);
+        const core = await runCore((context, sink) => generateProjectFiles(context, request, sink, [0, 100]));
+        assert.deepStrictEqual(await runTask(engine, { type: 'ue', action: 'generate' }), core);
+    } finally {
+        fs.rmSync(engine.root, { recursive: true, force: true });
+    }
+});
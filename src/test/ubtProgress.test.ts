@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { UBTProgress, UBTProgressParser } from '../utils/ubtProgress';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+// 按固定大小切分输出，模拟子进程在任意位置断开的数据块
+function feedInChunks(parser: UBTProgressParser, text: string, size: number): UBTProgress[] {
+    const chunks: string[] = [];
+    for (let offset = 0; offset < text.length; offset += size) {
+        chunks.push(text.slice(offset, offset + size));
+    }
+    return feedAll(parser, chunks);
+}
+
+function feedLines(parser: UBTProgressParser, text: string): UBTProgress[] {
+    return feedAll(parser, text.match(/[^\n]*\n|[^\n]+$/g) || []);
+}
+
+function feedAll(parser: UBTProgressParser, chunks: string[]): UBTProgress[] {
+    const updates: UBTProgress[] = [];
+    for (const chunk of chunks) {
+        const update = parser.feed(chunk);
+        if (update) {
+            updates.push(update);
+        }
+    }
+    const last = parser.flush();
+    if (last) {
+        updates.push(last);
+    }
+    return updates;
+}
+
+test('follows UHT, compile, link and completion phases of a recorded build', () => {
+    const updates = feedLines(new UBTProgressParser(), readFixture('msvc.txt'));
+    assert.deepStrictEqual(updates.map(update => update.phase), ['uht', 'compile', 'compile', 'link', 'done']);
+    assert.deepStrictEqual(updates[2], {
+        phase: 'compile',
+        progress: 15 + 85 / 4,
+        completed: 1,
+        total: 4,
+        currentFile: 'Module.ShooterGame.cpp'
+    });
+    assert.strictEqual(updates[3].currentFile, 'UnrealEditor-ShooterGame.dll');
+    assert.strictEqual(updates[4].progress, 100);
+});
+
+test('handles lines split across output chunks', () => {
+    const text = readFixture('clang.txt');
+    const expected = feedLines(new UBTProgressParser(), text);
+    assert.deepStrictEqual(feedInChunks(new UBTProgressParser(), text, 1), expected);
+    for (const size of [7, 64, text.length]) {
+        const parser = new UBTProgressParser();
+        feedInChunks(parser, text, size);
+        assert.deepStrictEqual(parser.getProgress(), expected[expected.length - 1], `chunk size ${size}`);
+    }
+});
+
+test('never moves progress backwards', () => {
+    const parser = new UBTProgressParser();
+    const values = ['Building 10 actions with 8 processes...', '[5/10] Compile a.cpp', '[3/10] Compile b.cpp', '[6/10] Link Game']
+        .map(line => parser.feed(`${line}\n`)?.progress ?? parser.getProgress().progress);
+    assert.deepStrictEqual(values, [...values].sort((a, b) => a - b));
+});
+
+test('uses percentages when there are no action counts', () => {
+    const parser = new UBTProgressParser();
+    assert.strictEqual(parser.feed('Generating project files... 40%\n')?.progress, 40);
+    assert.strictEqual(parser.feed('Generating project files... 20%\n'), undefined);
+});
@@ -0,0 +1,117 @@
+export interface AutomationTestDefinition {
+    // 完整测试路径，例如 Project.Gameplay.Inventory.AddItem
+    fullPath: string;
+    file?: string;
+    line?: number;
+}
+
+export type AutomationTestState = 'passed' | 'failed' | 'skipped';
+
+export interface AutomationTestMessage {
+    type: 'error' | 'warning' | 'info';
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+export interface AutomationTestResult {
+    fullPath: string;
+    state: AutomationTestState;
+    // 毫秒
+    duration?: number;
+    messages: AutomationTestMessage[];
+}
+
+// IMPLEMENT_SIMPLE_AUTOMATION_TEST(FFooTest, "Project.Foo", EAutomationTestFlags::...)
+// IMPLEMENT_CUSTOM_SIMPLE_AUTOMATION_TEST(FFooTest, FBaseTest, "Project.Foo", ...)
+// BEGIN_DEFINE_SPEC(FFooSpec, "Project.Foo", ...) / DEFINE_SPEC(FFooSpec, "Project.Foo", ...)
+const TEST_MACRO_PATTERN = /\b(?:IMPLEMENT_(?:CUSTOM_)?(?:SIMPLE|COMPLEX)_AUTOMATION_TEST|BEGIN_DEFINE_SPEC|DEFINE_SPEC)\s*\([^"()]*"([^"]+)"/g;
+
+// LogAutomationCommandLine: Display: 	Project.Foo.Bar
+const LIST_PATTERN = /LogAutomationCommandLine:\s*Display:\s+(\S+)\s*$/;
+
+export function findAutomationTestsInSource(content: string, file: string): AutomationTestDefinition[] {
+    // 忽略注释中的宏，保留换行以计算行号
+    const stripped = content
+        .replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '))
+        .replace(/\/\/.*$/gm, '');
+
+    const tests: AutomationTestDefinition[] = [];
+    for (const match of stripped.matchAll(TEST_MACRO_PATTERN)) {
+        const line = stripped.slice(0, match.index || 0).split('\n').length;
+        tests.push({ fullPath: match[1].trim(), file, line });
+    }
+    return tests;
+}
+
+export function parseAutomationListOutput(output: string): AutomationTestDefinition[] {
+    const tests: AutomationTestDefinition[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(LIST_PATTERN);
+        // 测试路径至少包含一个分隔符，排除 "Found 12 automation tests" 之类的行
+        if (match && match[1].includes('.') && !/\s/.test(match[1])) {
+            tests.push({ fullPath: match[1] });
+        }
+    }
+    return tests;
+}
+
+// RunTests 按前缀匹配，多个测试用 + 连接
+export function getAutomationRunArgs(projectPath: string, testPaths: string[], reportDir: string): string[] {
+    return [
+        projectPath,
+        `-ExecCmds=Automation RunTests ${testPaths.join('+')}; Quit`,
+        `-ReportExportPath=${reportDir}`,
+        '-TestExit=Automation Test Queue Empty',
+        ...getHeadlessArgs()
+    ];
+}
+
+export function getAutomationListArgs(projectPath: string): string[] {
+    return [projectPath, '-ExecCmds=Automation List; Quit', ...getHeadlessArgs()];
+}
+
+function getHeadlessArgs(): string[] {
+    return ['-unattended', '-nullrhi', '-nosplash', '-nosound', '-NoPause', '-stdout', '-FullStdOutLogOutput'];
+}
+
+function toTestState(state: string): AutomationTestState {
+    switch (state) {
+        case 'Success':
+            return 'passed';
+        case 'Fail':
+            return 'failed';
+        default:
+            // NotRun / Skipped / InProcess
+            return 'skipped';
+    }
+}
+
+function toMessageType(type: string): AutomationTestMessage['type'] {
+    switch (type) {
+        case 'Error':
+            return 'error';
+        case 'Warning':
+            return 'warning';
+        default:
+            return 'info';
+    }
+}
+
+// 解析 -ReportExportPath 目录下的 index.json
+export function parseAutomationReport(content: string): AutomationTestResult[] {
+    const report = JSON.parse(content.replace(/^\uFEFF/, ''));
+    const tests: any[] = Array.isArray(report.tests) ? report.tests : [];
+
+    return tests.map(test => ({
+        fullPath: test.fullTestPath,
+        state: toTestState(test.state),
+        duration: typeof test.duration === 'number' ? Math.round(test.duration * 1000) : undefined,
+        messages: (Array.isArray(test.entries) ? test.entries : []).map((entry: any) => ({
+            type: toMessageType(entry.event?.type),
+            message: entry.event?.message || '',
+            file: entry.filename || undefined,
+            line: entry.lineNumber > 0 ? entry.lineNumber : undefined
+        }))
+    }));
+}
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { TargetType } from './projectTargets';
+
+export interface BuildConfigurationOption {
+    name: string;
+    label: string;
+}
+
+export const BUILD_CONFIGURATIONS = ['Debug', 'DebugGame', 'Development', 'Shipping', 'Test'];
+
+// Editor 目标不能以 Shipping / Test 编译
+const EDITOR_CONFIGURATIONS = ['Debug', 'DebugGame', 'Development'];
+
+export function isInstalledEngine(engineRoot: string): boolean {
+    return fs.existsSync(path.join(engineRoot, 'Engine', 'Build', 'InstalledBuild.txt'));
+}
+
+// 与 Visual Studio 解决方案一致，Editor 目标显示为 "Development Editor" 等
+export function getSupportedConfigurations(targetType: TargetType, installedEngine: boolean): BuildConfigurationOption[] {
+    const names = targetType === 'Editor' ? EDITOR_CONFIGURATIONS : BUILD_CONFIGURATIONS;
+    return names
+        // 安装版引擎不包含 Debug 配置的引擎库
+        .filter(name => !(installedEngine && name === 'Debug'))
+        .map(name => ({ name, label: targetType === 'Editor' ? `${name} Editor` : name }));
+}
+
+export function validateConfiguration(configuration: string, targetType: TargetType, installedEngine: boolean): { valid: boolean; error?: string } {
+    if (!BUILD_CONFIGURATIONS.includes(configuration)) {
+        return { valid: false, error: `不支持的编译配置: ${configuration}` };
+    }
+
+    if (targetType === 'Editor' && !EDITOR_CONFIGURATIONS.includes(configuration)) {
+        return { valid: false, error: `Editor 目标不支持 ${configuration} 配置，请使用 ${EDITOR_CONFIGURATIONS.join(' / ')}` };
+    }
+
+    if (installedEngine && configuration === 'Debug') {
+        return { valid: false, error: '安装版引擎不支持 Debug 配置，请使用 DebugGame 或源码版引擎' };
+    }
+
+    return { valid: true };
+}
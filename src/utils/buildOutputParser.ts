@@ -0,0 +1,176 @@
+import * as path from 'path';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticSource = 'MSVC' | 'Clang' | 'UBT' | 'UHT';
+
+export interface BuildDiagnostic {
+    file?: string;
+    line: number;
+    column: number;
+    severity: DiagnosticSeverity;
+    code?: string;
+    message: string;
+    source: DiagnosticSource;
+}
+
+// D:\Game\Source\Foo.cpp(12): error C2065: 'x': undeclared identifier
+// D:\Game\Source\Foo.h(10,5): warning C4996: ...
+// D:\Game\Source\Foo.h(10): Error: Unrecognized type 'FBar'（UHT 也会使用该格式）
+const MSVC_PATTERN = /^\s*(.+?)\((\d+)(?:,(\d+))?\)\s*:\s*(fatal error|error|warning|note|info)\s*([A-Z]+\d+)?\s*:\s*(.*)$/i;
+// UHT 的严重程度首字母大写且没有错误代码，MSVC 输出小写
+const UHT_SEVERITY_PATTERN = /^(Error|Warning)$/;
+
+// /home/dev/Game/Source/Foo.cpp:12:5: error: use of undeclared identifier 'x' [-Wfoo]
+const CLANG_PATTERN = /^\s*(.+?):(\d+):(\d+):\s*(fatal error|error|warning|note):\s*(.*?)(?:\s+\[(-W[^\]]+)\])?\s*$/;
+
+// Module.Game.cpp.obj : error LNK2019: unresolved external symbol ...
+// LINK : fatal error LNK1120: 1 unresolved externals
+// 链接错误没有源文件位置，显示在项目文件上
+const MSVC_LINK_PATTERN = /^\s*(.+?)\s*:\s*(fatal error|error|warning)\s+(LNK\d+)\s*:\s*(.*)$/i;
+
+// UnrealBuildTool : error : Unable to find target 'FooEditor'
+const UBT_PATTERN = /^\s*UnrealBuildTool(?:\.exe)?\s*:\s*(error|warning)\s*:?\s*(.*)$/i;
+
+// [2024.01.01-12.00.00:000][  0]LogCompile: Error: ...
+const UHT_PATTERN = /^\s*(?:\[[^\]]*\])*\s*LogCompile\s*:\s*(Error|Warning)\s*:\s*(.*)$/i;
+
+// UHT 消息中嵌入的位置：D:\Game\Source\Foo.h(10) : message
+const EMBEDDED_LOCATION_PATTERN = /^(.+?)\((\d+)(?:,(\d+))?\)\s*:\s*(.*)$/;
+
+function toSeverity(text: string): DiagnosticSeverity {
+    const lower = text.toLowerCase();
+    if (lower.includes('error')) {
+        return 'error';
+    }
+    if (lower === 'warning') {
+        return 'warning';
+    }
+    return 'info';
+}
+
+export function parseBuildOutputLine(line: string): BuildDiagnostic | undefined {
+    const text = line.replace(/\r$/, '');
+    if (!text.trim()) {
+        return undefined;
+    }
+
+    let match = text.match(UBT_PATTERN);
+    if (match) {
+        return {
+            line: 0,
+            column: 0,
+            severity: toSeverity(match[1]),
+            message: match[2].trim(),
+            source: 'UBT'
+        };
+    }
+
+    match = text.match(UHT_PATTERN);
+    if (match) {
+        const diagnostic: BuildDiagnostic = {
+            line: 0,
+            column: 0,
+            severity: toSeverity(match[1]),
+            message: match[2].trim(),
+            source: 'UHT'
+        };
+
+        const location = diagnostic.message.match(EMBEDDED_LOCATION_PATTERN);
+        if (location) {
+            diagnostic.file = location[1].trim();
+            diagnostic.line = parseInt(location[2], 10);
+            diagnostic.column = location[3] ? parseInt(location[3], 10) : 0;
+            diagnostic.message = location[4].trim();
+        }
+        return diagnostic;
+    }
+
+    match = text.match(MSVC_PATTERN);
+    if (match) {
+        return {
+            file: match[1].trim(),
+            line: parseInt(match[2], 10),
+            column: match[3] ? parseInt(match[3], 10) : 0,
+            severity: toSeverity(match[4]),
+            code: match[5],
+            message: match[6].trim(),
+            source: !match[5] && UHT_SEVERITY_PATTERN.test(match[4]) ? 'UHT' : 'MSVC'
+        };
+    }
+
+    match = text.match(MSVC_LINK_PATTERN);
+    if (match) {
+        const object = match[1].trim();
+        return {
+            line: 0,
+            column: 0,
+            severity: toSeverity(match[2]),
+            code: match[3].toUpperCase(),
+            message: object.toUpperCase() === 'LINK' ? match[4].trim() : `${object}: ${match[4].trim()}`,
+            source: 'MSVC'
+        };
+    }
+
+    match = text.match(CLANG_PATTERN);
+    if (match) {
+        return {
+            file: match[1].trim(),
+            line: parseInt(match[2], 10),
+            column: parseInt(match[3], 10),
+            severity: toSeverity(match[4]),
+            code: match[6],
+            message: match[5].trim(),
+            source: 'Clang'
+        };
+    }
+
+    return undefined;
+}
+
+export class BuildOutputParser {
+    private _pending: string = '';
+    private _diagnostics: BuildDiagnostic[] = [];
+
+    constructor(private readonly _baseDir?: string) {
+    }
+
+    public get diagnostics(): BuildDiagnostic[] {
+        return [...this._diagnostics];
+    }
+
+    public feed(chunk: string): BuildDiagnostic[] {
+        const lines = (this._pending + chunk).split('\n');
+        this._pending = lines.pop() || '';
+        return this._parseLines(lines);
+    }
+
+    public flush(): BuildDiagnostic[] {
+        const lines = this._pending ? [this._pending] : [];
+        this._pending = '';
+        return this._parseLines(lines);
+    }
+
+    private _parseLines(lines: string[]): BuildDiagnostic[] {
+        const parsed: BuildDiagnostic[] = [];
+        for (const line of lines) {
+            const diagnostic = parseBuildOutputLine(line);
+            if (!diagnostic) {
+                continue;
+            }
+            if (diagnostic.file && this._baseDir && !path.isAbsolute(diagnostic.file) && !path.win32.isAbsolute(diagnostic.file)) {
+                diagnostic.file = path.resolve(this._baseDir, diagnostic.file);
+            }
+            parsed.push(diagnostic);
+        }
+        this._diagnostics.push(...parsed);
+        return parsed;
+    }
+}
+
+export function parseBuildOutput(text: string, baseDir?: string): BuildDiagnostic[] {
+    const parser = new BuildOutputParser(baseDir);
+    parser.feed(text);
+    parser.flush();
+    return parser.diagnostics;
+}
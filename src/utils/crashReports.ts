@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CrashFrame {
+    module?: string;
+    symbol: string;
+    file?: string;
+    line?: number;
+    raw: string;
+}
+
+export interface CrashReport {
+    // 崩溃目录名，例如 UECC-Windows-0123ABCD_0000
+    id: string;
+    folder: string;
+    time: number;
+    errorMessage: string;
+    crashType?: string;
+    gameName?: string;
+    buildVersion?: string;
+    engineVersion?: string;
+    callstack: CrashFrame[];
+    modules: string[];
+}
+
+export const CRASH_CONTEXT_FILE = 'CrashContext.runtime-xml';
+
+// UnrealEditor-MyGame.dll!AMyActor::Tick() [D:\Game\Source\MyGame\MyActor.cpp:42]
+// 0x00007ffd12345678 UnrealEditor-Core.dll!UnknownFunction []
+const FRAME_PATTERN = /^(?:0x[0-9a-f]+\s+)?(?:([^!\s]+)!)?(.*?)\s*(?:\[(.*)\])?$/i;
+const FRAME_LOCATION_PATTERN = /^(.*):(\d+)$/;
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+}
+
+function getElement(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? decodeXml(match[1]).trim() : undefined;
+}
+
+export function parseCrashFrame(line: string): CrashFrame | undefined {
+    const text = line.trim();
+    if (!text) {
+        return undefined;
+    }
+
+    const match = text.match(FRAME_PATTERN);
+    if (!match) {
+        return { symbol: text, raw: text };
+    }
+
+    const frame: CrashFrame = { module: match[1], symbol: match[2] || text, raw: text };
+    const location = match[3]?.match(FRAME_LOCATION_PATTERN);
+    if (location) {
+        frame.file = location[1].trim();
+        frame.line = parseInt(location[2], 10);
+    }
+    return frame;
+}
+
+export function parseCrashContext(xml: string): Omit<CrashReport, 'id' | 'folder' | 'time'> {
+    const callstack = (getElement(xml, 'CallStack') || '')
+        .split(/\r?\n/)
+        .map(parseCrashFrame)
+        .filter((frame): frame is CrashFrame => !!frame);
+    const modules = (getElement(xml, 'Modules') || '')
+        .split(/\r?\n/)
+        .map(module => module.trim())
+        .filter(Boolean);
+
+    return {
+        errorMessage: getElement(xml, 'ErrorMessage') || '未知错误',
+        crashType: getElement(xml, 'CrashType'),
+        gameName: getElement(xml, 'GameName'),
+        buildVersion: getElement(xml, 'BuildVersion'),
+        engineVersion: getElement(xml, 'EngineVersion'),
+        callstack,
+        modules
+    };
+}
+
+export function readCrashReport(folder: string): CrashReport | undefined {
+    const contextFile = path.join(folder, CRASH_CONTEXT_FILE);
+    if (!fs.existsSync(contextFile)) {
+        return undefined;
+    }
+
+    try {
+        const xml = fs.readFileSync(contextFile, 'utf8');
+        return {
+            id: path.basename(folder),
+            folder,
+            time: fs.statSync(contextFile).mtimeMs,
+            ...parseCrashContext(xml)
+        };
+    } catch (error) {
+        console.error('[CrashReports] Error reading crash report:', contextFile, error);
+        return undefined;
+    }
+}
+
+// 按时间从新到旧返回
+export function loadCrashReports(crashesDir: string, limit: number): CrashReport[] {
+    if (!fs.existsSync(crashesDir)) {
+        return [];
+    }
+
+    return fs.readdirSync(crashesDir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => readCrashReport(path.join(crashesDir, entry.name)))
+        .filter((report): report is CrashReport => !!report)
+        .sort((a, b) => b.time - a.time)
+        .slice(0, limit);
+}
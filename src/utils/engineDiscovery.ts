@@ -0,0 +1,219 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+export type EngineSource = 'launcher' | 'registry' | 'installIni' | 'workspace';
+
+export interface EngineVersion {
+    major: number;
+    minor: number;
+    patch: number;
+    branch?: string;
+}
+
+export interface EngineInstallation {
+    // 与 .uproject 中 EngineAssociation 对应的标识：Launcher 版本为 "5.3"，注册的源码版本为 GUID
+    id: string;
+    root: string;
+    source: EngineSource;
+    version?: EngineVersion;
+}
+
+export function formatEngineVersion(version?: EngineVersion): string {
+    return version ? `${version.major}.${version.minor}.${version.patch}` : '未知版本';
+}
+
+export function readBuildVersion(engineRoot: string): EngineVersion | undefined {
+    const versionFile = path.join(engineRoot, 'Engine', 'Build', 'Build.version');
+    try {
+        const content = JSON.parse(fs.readFileSync(versionFile, 'utf8'));
+        return {
+            major: content.MajorVersion,
+            minor: content.MinorVersion,
+            patch: content.PatchVersion,
+            branch: content.BranchName
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+export function readLauncherInstalled(programData: string | undefined = process.env.PROGRAMDATA): EngineInstallation[] {
+    if (!programData) {
+        return [];
+    }
+
+    const datPath = path.join(programData, 'Epic', 'UnrealEngineLauncher', 'LauncherInstalled.dat');
+    try {
+        const content = JSON.parse(fs.readFileSync(datPath, 'utf8'));
+        return (content.InstallationList || [])
+            .filter((item: any) => typeof item.AppName === 'string' && item.AppName.startsWith('UE_'))
+            .map((item: any) => ({
+                id: item.AppName.slice('UE_'.length),
+                root: path.normalize(item.InstallLocation),
+                source: 'launcher' as EngineSource
+            }));
+    } catch {
+        return [];
+    }
+}
+
+export function parseRegistryBuilds(output: string): EngineInstallation[] {
+    const engines: EngineInstallation[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        // {GUID}    REG_SZ    D:/UnrealEngine
+        const match = line.match(/^\s+(\S+)\s+REG_SZ\s+(.+?)\s*$/);
+        if (match) {
+            engines.push({ id: match[1], root: path.normalize(match[2]), source: 'registry' });
+        }
+    }
+    return engines;
+}
+
+export async function readRegistryBuilds(): Promise<EngineInstallation[]> {
+    if (process.platform !== 'win32') {
+        return [];
+    }
+
+    try {
+        const { stdout } = await execAsync('reg query "HKCU\\Software\\Epic Games\\Unreal Engine\\Builds"', { windowsHide: true });
+        return parseRegistryBuilds(stdout);
+    } catch {
+        return [];
+    }
+}
+
+export function parseInstallIni(content: string): EngineInstallation[] {
+    const engines: EngineInstallation[] = [];
+    let inInstallations = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line.startsWith('[')) {
+            inInstallations = line === '[Installations]';
+            continue;
+        }
+        if (!inInstallations || !line || line.startsWith(';')) {
+            continue;
+        }
+
+        const separator = line.indexOf('=');
+        if (separator > 0) {
+            engines.push({
+                id: line.slice(0, separator).trim(),
+                root: path.normalize(line.slice(separator + 1).trim()),
+                source: 'installIni'
+            });
+        }
+    }
+    return engines;
+}
+
+export function getInstallIniPath(platform: NodeJS.Platform = process.platform): string | undefined {
+    switch (platform) {
+        case 'linux':
+            return path.join(os.homedir(), '.config', 'Epic', 'UnrealEngine', 'Install.ini');
+        case 'darwin':
+            return path.join(os.homedir(), 'Library', 'Application Support', 'Epic', 'UnrealEngine', 'Install.ini');
+        default:
+            return undefined;
+    }
+}
+
+export function readInstallIni(iniPath: string | undefined = getInstallIniPath()): EngineInstallation[] {
+    if (!iniPath) {
+        return [];
+    }
+
+    try {
+        return parseInstallIni(fs.readFileSync(iniPath, 'utf8'));
+    } catch {
+        return [];
+    }
+}
+
+export async function findWorkspaceEngines(roots: string[], maxDepth: number = 2): Promise<EngineInstallation[]> {
+    const engines: EngineInstallation[] = [];
+
+    const visit = async (dir: string, depth: number) => {
+        if (fs.existsSync(path.join(dir, 'Engine', 'Build', 'Build.version'))) {
+            engines.push({ id: dir, root: dir, source: 'workspace' });
+            return;
+        }
+        if (depth >= maxDepth) {
+            return;
+        }
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                await visit(path.join(dir, entry.name), depth + 1);
+            }
+        }
+    };
+
+    for (const root of roots) {
+        await visit(root, 0);
+    }
+    return engines;
+}
+
+export async function discoverEngines(workspaceRoots: string[] = []): Promise<EngineInstallation[]> {
+    const candidates = [
+        ...readLauncherInstalled(),
+        ...await readRegistryBuilds(),
+        ...readInstallIni(),
+        ...await findWorkspaceEngines(workspaceRoots)
+    ];
+
+    const engines = new Map<string, EngineInstallation>();
+    for (const candidate of candidates) {
+        const key = path.resolve(candidate.root).toLowerCase();
+        if (engines.has(key) || !fs.existsSync(path.join(candidate.root, 'Engine'))) {
+            continue;
+        }
+        engines.set(key, { ...candidate, version: readBuildVersion(candidate.root) });
+    }
+
+    return [...engines.values()];
+}
+
+export function readEngineAssociation(projectPath: string): string {
+    try {
+        const content = JSON.parse(fs.readFileSync(projectPath, 'utf8'));
+        return typeof content.EngineAssociation === 'string' ? content.EngineAssociation : '';
+    } catch {
+        return '';
+    }
+}
+
+function normalizeAssociation(value: string): string {
+    return value.trim().replace(/^\{|\}$/g, '').toLowerCase();
+}
+
+export function matchesEngineAssociation(association: string, engine: EngineInstallation): boolean {
+    // 空关联表示项目位于引擎目录树内或由用户自行指定，无法判断
+    if (!association) {
+        return true;
+    }
+
+    if (normalizeAssociation(association) === normalizeAssociation(engine.id)) {
+        return true;
+    }
+
+    const versionMatch = association.match(/^(\d+)\.(\d+)$/);
+    if (versionMatch && engine.version) {
+        return engine.version.major === parseInt(versionMatch[1], 10) && engine.version.minor === parseInt(versionMatch[2], 10);
+    }
+
+    return false;
+}
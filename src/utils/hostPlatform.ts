@@ -0,0 +1,316 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { spawn, exec, ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import { ProcessLauncher } from './jobRunner';
+
+const execAsync = promisify(exec);
+
+export type HostPlatformName = 'Win64' | 'Linux' | 'Mac';
+
+export interface ProcessInfo {
+    pid: number;
+    name: string;
+    commandLine: string;
+}
+
+export interface FindFilesOptions {
+    maxDepth?: number;
+    ignoreDirs?: string[];
+}
+
+// cmd 会解释的特殊字符，需要用 ^ 转义
+const CMD_META_CHARS = /[()\][%!^"`<>&|;, *?]/g;
+
+// 搜索 .uproject 等文件时跳过的大目录
+const DEFAULT_IGNORED_DIRS = [
+    '.git', '.vs', '.vscode', 'node_modules',
+    'Intermediate', 'Binaries', 'Saved', 'DerivedDataCache'
+];
+
+export abstract class HostPlatform {
+    public abstract readonly name: HostPlatformName;
+    public abstract readonly editorExecutableName: string;
+    public abstract readonly editorFileExtensions: string[];
+
+    public getEngineRoot(editorPath: string): string {
+        let current = path.dirname(editorPath);
+        while (current && path.dirname(current) !== current) {
+            if (path.basename(current) === 'Engine') {
+                return path.dirname(current);
+            }
+            current = path.dirname(current);
+        }
+        return path.dirname(path.dirname(path.dirname(path.dirname(editorPath))));
+    }
+
+    public getBatchFilesDir(engineRoot: string): string {
+        return path.join(engineRoot, 'Engine', 'Build', 'BatchFiles');
+    }
+
+    public abstract getBuildScript(engineRoot: string): string;
+
+    public abstract getUATScript(engineRoot: string): string;
+
+    public abstract getEditorPath(engineRoot: string): string;
+
+    // 团队配置中的钩子命令通过系统 shell 执行
+    public abstract getShellCommand(command: string): { executable: string; args: string[] };
+
+    public abstract spawnProcess(executable: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): ChildProcess;
+
+    public abstract killProcessTree(pid: number): void;
+
+    public abstract findProcesses(namePrefix: string): Promise<ProcessInfo[]>;
+
+    // 用于显示的命令行，实际执行时参数直接传给子进程
+    public formatCommand(executable: string, args: string[]): string {
+        const quote = (value: string) => /[\s"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+        return `${quote(executable)} ${args.map(quote).join(' ')}`.trim();
+    }
+
+    public launchDetached(executable: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv, onError?: (error: Error) => void): ChildProcess {
+        const child = spawn(executable, args, {
+            cwd,
+            env,
+            detached: true,
+            stdio: 'ignore',
+            windowsHide: false
+        });
+        if (onError) {
+            child.on('error', onError);
+        }
+        child.unref();
+        return child;
+    }
+
+    public async findFiles(root: string, extension: string, options: FindFilesOptions = {}): Promise<string[]> {
+        const maxDepth = options.maxDepth ?? 6;
+        const ignoreDirs = new Set(options.ignoreDirs ?? DEFAULT_IGNORED_DIRS);
+        const results: string[] = [];
+
+        const walk = async (dir: string, depth: number) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    if (depth < maxDepth && !ignoreDirs.has(entry.name)) {
+                        await walk(fullPath, depth + 1);
+                    }
+                } else if (entry.isFile() && entry.name.toLowerCase().endsWith(extension.toLowerCase())) {
+                    results.push(fullPath);
+                }
+            }
+        };
+
+        await walk(root, 0);
+        return results.sort();
+    }
+}
+
+class WindowsPlatform extends HostPlatform {
+    public readonly name: HostPlatformName = 'Win64';
+    public readonly editorExecutableName = 'UnrealEditor.exe';
+    public readonly editorFileExtensions = ['exe'];
+
+    public getBuildScript(engineRoot: string): string {
+        return path.join(this.getBatchFilesDir(engineRoot), 'Build.bat');
+    }
+
+    public getUATScript(engineRoot: string): string {
+        return path.join(this.getBatchFilesDir(engineRoot), 'RunUAT.bat');
+    }
+
+    public getEditorPath(engineRoot: string): string {
+        return path.join(engineRoot, 'Engine', 'Binaries', 'Win64', this.editorExecutableName);
+    }
+
+    public getShellCommand(command: string): { executable: string; args: string[] } {
+        return { executable: process.env.ComSpec || 'cmd.exe', args: ['/d', '/s', '/c', `"${command}"`] };
+    }
+
+    public spawnProcess(executable: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): ChildProcess {
+        const options = {
+            cwd,
+            env: env ? { ...process.env, ...env } : undefined,
+            windowsHide: true
+        };
+
+        // .bat 只能通过 cmd 执行，命令行整体交给 shell
+        if (/\.(bat|cmd)$/i.test(executable)) {
+            const command = [executable.replace(CMD_META_CHARS, '^$&'), ...args.map(arg => this._escapeCmdArgument(arg))].join(' ');
+            return spawn(command, { ...options, shell: true });
+        }
+        // cmd /s /c "..." 的参数不能再被转义引号
+        if (path.basename(executable).toLowerCase() === 'cmd.exe') {
+            return spawn(executable, args, { ...options, windowsVerbatimArguments: true });
+        }
+        return spawn(executable, args, options);
+    }
+
+    public killProcessTree(pid: number): void {
+        spawn('taskkill', ['/F', '/T', '/PID', String(pid)], { windowsHide: true });
+    }
+
+    // 先按 MSVCRT 规则加引号（引号和其前面的反斜杠需要转义），再转义 cmd 的特殊字符
+    private _escapeCmdArgument(arg: string): string {
+        const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+        return quoted.replace(CMD_META_CHARS, '^$&');
+    }
+
+    public async findProcesses(namePrefix: string): Promise<ProcessInfo[]> {
+        const query = `Get-CimInstance Win32_Process -Filter \\"Name like '${namePrefix}%'\\" | Select-Object ProcessId,Name,CommandLine | ConvertTo-Json`;
+        const { stdout } = await execAsync(`powershell -NoProfile -NonInteractive -Command "${query}"`, {
+            maxBuffer: 1024 * 1024 * 10
+        });
+
+        if (!stdout.trim()) {
+            return [];
+        }
+
+        const parsed = JSON.parse(stdout);
+        return (Array.isArray(parsed) ? parsed : [parsed]).map((item: any) => ({
+            pid: item.ProcessId,
+            name: item.Name,
+            commandLine: item.CommandLine || ''
+        }));
+    }
+}
+
+abstract class PosixPlatform extends HostPlatform {
+    public readonly editorExecutableName = 'UnrealEditor';
+    public readonly editorFileExtensions: string[] = [];
+
+    public getUATScript(engineRoot: string): string {
+        return path.join(this.getBatchFilesDir(engineRoot), 'RunUAT.sh');
+    }
+
+    public getShellCommand(command: string): { executable: string; args: string[] } {
+        return { executable: '/bin/sh', args: ['-c', command] };
+    }
+
+    public spawnProcess(executable: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): ChildProcess {
+        const options = {
+            cwd,
+            env: env ? { ...process.env, ...env } : undefined,
+            // detached 使子进程成为进程组组长，取消时可以结束整个进程组
+            detached: true
+        };
+
+        if (executable.endsWith('.sh')) {
+            return spawn('bash', [executable, ...args], options);
+        }
+        return spawn(executable, args, options);
+    }
+
+    public killProcessTree(pid: number): void {
+        try {
+            process.kill(-pid, 'SIGTERM');
+        } catch {
+            try {
+                process.kill(pid, 'SIGTERM');
+            } catch {
+                // 进程已经退出
+            }
+        }
+    }
+
+    public async findProcesses(namePrefix: string): Promise<ProcessInfo[]> {
+        const { stdout } = await execAsync('ps -ax -o pid=,comm=,args=', { maxBuffer: 1024 * 1024 * 10 });
+        const processes: ProcessInfo[] = [];
+
+        for (const line of stdout.split('\n')) {
+            const match = line.trim().match(/^(\d+)\s+(\S+)\s+(.*)$/);
+            if (match && path.basename(match[2]).startsWith(namePrefix)) {
+                processes.push({
+                    pid: parseInt(match[1], 10),
+                    name: path.basename(match[2]),
+                    commandLine: match[3]
+                });
+            }
+        }
+
+        return processes;
+    }
+}
+
+class LinuxPlatform extends PosixPlatform {
+    public readonly name: HostPlatformName = 'Linux';
+
+    // ps 的 comm 最多 15 个字符（UnrealEditor-Cm），从 /proc/<pid>/cmdline 读取完整的命令行
+    public async findProcesses(namePrefix: string): Promise<ProcessInfo[]> {
+        const processes: ProcessInfo[] = [];
+        for (const entry of await fs.promises.readdir('/proc')) {
+            if (!/^\d+$/.test(entry)) {
+                continue;
+            }
+
+            let args: string[];
+            try {
+                args = (await fs.promises.readFile(path.join('/proc', entry, 'cmdline'), 'utf8')).split('\0').filter(Boolean);
+            } catch {
+                // 读取期间退出的进程
+                continue;
+            }
+
+            const name = args.length > 0 ? path.basename(args[0]) : '';
+            if (name && name.startsWith(namePrefix)) {
+                processes.push({ pid: parseInt(entry, 10), name, commandLine: args.join(' ') });
+            }
+        }
+        return processes;
+    }
+
+    public getBuildScript(engineRoot: string): string {
+        return path.join(this.getBatchFilesDir(engineRoot), 'Linux', 'Build.sh');
+    }
+
+    public getEditorPath(engineRoot: string): string {
+        return path.join(engineRoot, 'Engine', 'Binaries', 'Linux', this.editorExecutableName);
+    }
+}
+
+class MacPlatform extends PosixPlatform {
+    public readonly name: HostPlatformName = 'Mac';
+
+    public getBuildScript(engineRoot: string): string {
+        return path.join(this.getBatchFilesDir(engineRoot), 'Mac', 'Build.sh');
+    }
+
+    public getEditorPath(engineRoot: string): string {
+        return path.join(engineRoot, 'Engine', 'Binaries', 'Mac', 'UnrealEditor.app', 'Contents', 'MacOS', this.editorExecutableName);
+    }
+}
+
+export function createProcessLauncher(platform: HostPlatform = getHostPlatform()): ProcessLauncher {
+    return {
+        spawn: (executable, args, cwd, env) => platform.spawnProcess(executable, args, cwd, env),
+        kill: pid => platform.killProcessTree(pid)
+    };
+}
+
+export function createHostPlatform(platform: NodeJS.Platform = process.platform): HostPlatform {
+    switch (platform) {
+        case 'win32':
+            return new WindowsPlatform();
+        case 'darwin':
+            return new MacPlatform();
+        default:
+            return new LinuxPlatform();
+    }
+}
+
+let currentPlatform: HostPlatform | undefined;
+
+export function getHostPlatform(): HostPlatform {
+    if (!currentPlatform) {
+        currentPlatform = createHostPlatform();
+    }
+    return currentPlatform;
+}
@@ -0,0 +1,383 @@
+import { EventEmitter } from 'events';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ProcessOutputStream {
+    on(event: 'data', listener: (data: Buffer | string) => void): unknown;
+}
+
+// 子进程的最小接口，测试时可以用假进程替代
+export interface ProcessHandle {
+    pid?: number;
+    stdout?: ProcessOutputStream | null;
+    stderr?: ProcessOutputStream | null;
+    on(event: 'close', listener: (code: number | null) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+export interface ProcessLauncher {
+    spawn(executable: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): ProcessHandle;
+    kill(pid: number): void;
+}
+
+export interface RunProcessOptions {
+    cwd: string;
+    env?: NodeJS.ProcessEnv;
+    onOutput?: (text: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface JobProgressDetail {
+    phase?: string;
+    currentFile?: string;
+}
+
+export interface JobContext {
+    readonly id: number;
+    readonly label: string;
+    isCancelled(): boolean;
+    // 取消运行中的任务时调用，用于停止不是通过 runProcess 启动的资源（例如调试会话）
+    onCancel(listener: () => void): void;
+    progress(progress: number, message?: string, detail?: JobProgressDetail): void;
+    runProcess(executable: string, args: string[], options: RunProcessOptions): Promise<void>;
+}
+
+export interface JobDefinition {
+    label: string;
+    kind?: string;
+    // 并行任务不进入队列，立即与其他任务同时执行
+    parallel?: boolean;
+    // 同类任务上一次成功的耗时（毫秒），用于估算剩余时间
+    expectedDuration?: number;
+    run(context: JobContext): Promise<void>;
+}
+
+export interface JobInfo {
+    id: number;
+    label: string;
+    kind?: string;
+    parallel: boolean;
+    state: JobState;
+    progress: number;
+    message?: string;
+    phase?: string;
+    currentFile?: string;
+    // 预计剩余时间（毫秒）
+    eta?: number;
+    error?: string;
+    queuedAt: number;
+    startTime?: number;
+    endTime?: number;
+}
+
+export interface Job {
+    readonly info: JobInfo;
+    readonly done: Promise<void>;
+}
+
+export class JobCancelledError extends Error {
+    constructor(label: string) {
+        super(`任务已取消: ${label}`);
+        this.name = 'JobCancelledError';
+    }
+}
+
+export class ProcessExitError extends Error {
+    constructor(public readonly code: number | null, public readonly stderr: string) {
+        super(`进程退出，代码: ${code}\n${stderr}`);
+        this.name = 'ProcessExitError';
+    }
+}
+
+interface JobEntry {
+    info: JobInfo;
+    definition: JobDefinition;
+    processes: Set<ProcessHandle>;
+    cancelListeners: (() => void)[];
+    cancelled: boolean;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+const MAX_FINISHED_JOBS = 20;
+// 错误信息中保留的 stderr 末尾长度，失败的 UBT/UAT 可能输出大量内容
+const STDERR_TAIL_LENGTH = 4096;
+
+// 截取末尾部分时从完整的行开始
+function tailText(text: string, length: number): string {
+    if (text.length <= length) {
+        return text;
+    }
+    const tail = text.slice(-length);
+    const newline = tail.indexOf('\n');
+    return newline >= 0 && newline < tail.length - 1 ? tail.slice(newline + 1) : tail;
+}
+
+// 进度较低时以历史耗时为准，随着进度增加逐渐以实际速度为准
+export function estimateRemaining(elapsed: number, progress: number, expectedDuration?: number): number | undefined {
+    if (progress >= 100) {
+        return 0;
+    }
+
+    const measured = progress >= 5 ? elapsed * (100 - progress) / progress : undefined;
+    if (expectedDuration === undefined) {
+        return measured === undefined ? undefined : Math.round(measured);
+    }
+
+    const historical = Math.max(0, expectedDuration - elapsed);
+    if (measured === undefined) {
+        return historical;
+    }
+    const weight = progress / 100;
+    return Math.round(historical * (1 - weight) + measured * weight);
+}
+
+export class JobRunner extends EventEmitter {
+    private _entries: JobEntry[] = [];
+    private _nextId: number = 1;
+    private _sequentialRunning: boolean = false;
+
+    constructor(private readonly _launcher: ProcessLauncher) {
+        super();
+    }
+
+    public getJobs(): JobInfo[] {
+        return this._entries.map(entry => ({ ...entry.info }));
+    }
+
+    public getJob(id: number): JobInfo | undefined {
+        const entry = this._entries.find(candidate => candidate.info.id === id);
+        return entry ? { ...entry.info } : undefined;
+    }
+
+    public hasActiveJobs(): boolean {
+        return this._entries.some(entry => entry.info.state === 'queued' || entry.info.state === 'running');
+    }
+
+    public enqueue(definition: JobDefinition): Job {
+        let resolve!: () => void;
+        let reject!: (error: Error) => void;
+        const done = new Promise<void>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        // 调用方不等待结果时避免未处理的 rejection
+        done.catch(() => undefined);
+
+        const entry: JobEntry = {
+            info: {
+                id: this._nextId++,
+                label: definition.label,
+                kind: definition.kind,
+                parallel: !!definition.parallel,
+                state: 'queued',
+                progress: 0,
+                queuedAt: Date.now()
+            },
+            definition,
+            processes: new Set(),
+            cancelListeners: [],
+            cancelled: false,
+            resolve,
+            reject
+        };
+
+        this._entries.push(entry);
+        this._pruneFinished();
+        this._emitChanged();
+
+        if (entry.info.parallel) {
+            this._start(entry);
+        } else {
+            this._runNext();
+        }
+
+        return { info: { ...entry.info }, done };
+    }
+
+    public cancel(id: number): boolean {
+        const entry = this._entries.find(candidate => candidate.info.id === id);
+        if (!entry || (entry.info.state !== 'queued' && entry.info.state !== 'running')) {
+            return false;
+        }
+
+        entry.cancelled = true;
+        if (entry.info.state === 'queued') {
+            this._finish(entry, 'cancelled', new JobCancelledError(entry.info.label));
+        } else {
+            for (const process of entry.processes) {
+                if (process.pid !== undefined) {
+                    this._launcher.kill(process.pid);
+                }
+            }
+            for (const listener of entry.cancelListeners) {
+                try {
+                    listener();
+                } catch (error) {
+                    console.error('[JobRunner] Error in cancel listener:', error);
+                }
+            }
+        }
+        return true;
+    }
+
+    public cancelAll() {
+        // 先取消排队中的任务，避免正在运行的任务结束后启动下一个
+        const queued = this._entries.filter(entry => entry.info.state === 'queued');
+        const running = this._entries.filter(entry => entry.info.state === 'running');
+        [...queued, ...running].forEach(entry => this.cancel(entry.info.id));
+    }
+
+    public cancelKind(kind: string) {
+        this._entries
+            .filter(entry => entry.info.kind === kind && (entry.info.state === 'queued' || entry.info.state === 'running'))
+            .forEach(entry => this.cancel(entry.info.id));
+    }
+
+    public hasActiveJobsOfKind(kind: string): boolean {
+        return this._entries.some(entry => entry.info.kind === kind && (entry.info.state === 'queued' || entry.info.state === 'running'));
+    }
+
+    public clearFinished() {
+        this._entries = this._entries.filter(entry => entry.info.state === 'queued' || entry.info.state === 'running');
+        this._emitChanged();
+    }
+
+    private _runNext() {
+        if (this._sequentialRunning) {
+            return;
+        }
+
+        const next = this._entries.find(entry => !entry.info.parallel && entry.info.state === 'queued');
+        if (next) {
+            this._sequentialRunning = true;
+            this._start(next);
+        }
+    }
+
+    private async _start(entry: JobEntry) {
+        entry.info.state = 'running';
+        entry.info.startTime = Date.now();
+        this._emitChanged();
+
+        try {
+            await entry.definition.run(this._createContext(entry));
+            if (entry.cancelled) {
+                throw new JobCancelledError(entry.info.label);
+            }
+            this._finish(entry, 'succeeded');
+        } catch (error: any) {
+            const failure = entry.cancelled ? new JobCancelledError(entry.info.label) : error;
+            this._finish(entry, entry.cancelled ? 'cancelled' : 'failed', failure);
+        }
+    }
+
+    private _finish(entry: JobEntry, state: JobState, error?: Error) {
+        const wasRunning = entry.info.state === 'running';
+        entry.info.state = state;
+        entry.info.endTime = Date.now();
+        if (error && state === 'failed') {
+            entry.info.error = error.message || String(error);
+        }
+        if (state === 'succeeded') {
+            entry.info.progress = 100;
+        }
+        entry.info.eta = undefined;
+        entry.info.currentFile = undefined;
+        this._emitChanged();
+
+        if (error) {
+            entry.reject(error);
+        } else {
+            entry.resolve();
+        }
+
+        if (wasRunning && !entry.info.parallel) {
+            this._sequentialRunning = false;
+            this._runNext();
+        }
+    }
+
+    private _createContext(entry: JobEntry): JobContext {
+        return {
+            id: entry.info.id,
+            label: entry.info.label,
+            isCancelled: () => entry.cancelled,
+            onCancel: (listener: () => void) => {
+                entry.cancelListeners.push(listener);
+            },
+            progress: (progress: number, message?: string, detail?: JobProgressDetail) => {
+                entry.info.progress = progress;
+                entry.info.message = message;
+                entry.info.phase = detail?.phase;
+                entry.info.currentFile = detail?.currentFile;
+                entry.info.eta = estimateRemaining(Date.now() - (entry.info.startTime || Date.now()), progress, entry.definition.expectedDuration);
+                this.emit('progress', { ...entry.info });
+            },
+            runProcess: (executable: string, args: string[], options: RunProcessOptions) => this._runProcess(entry, executable, args, options)
+        };
+    }
+
+    private _runProcess(entry: JobEntry, executable: string, args: string[], options: RunProcessOptions): Promise<void> {
+        if (entry.cancelled) {
+            return Promise.reject(new JobCancelledError(entry.info.label));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const child = this._launcher.spawn(executable, args, options.cwd, options.env);
+            entry.processes.add(child);
+            let stderr = '';
+            let settled = false;
+
+            child.stdout?.on('data', (data: Buffer | string) => {
+                options.onOutput?.(data.toString(), 'stdout');
+            });
+
+            child.stderr?.on('data', (data: Buffer | string) => {
+                const text = data.toString();
+                stderr += text;
+                if (stderr.length > STDERR_TAIL_LENGTH * 2) {
+                    stderr = stderr.slice(-STDERR_TAIL_LENGTH);
+                }
+                options.onOutput?.(text, 'stderr');
+            });
+
+            child.on('close', (code: number | null) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                entry.processes.delete(child);
+
+                if (entry.cancelled) {
+                    reject(new JobCancelledError(entry.info.label));
+                } else if (code === 0) {
+                    resolve();
+                } else {
+                    reject(new ProcessExitError(code, tailText(stderr, STDERR_TAIL_LENGTH)));
+                }
+            });
+
+            child.on('error', (error: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                entry.processes.delete(child);
+                reject(error);
+            });
+        });
+    }
+
+    private _pruneFinished() {
+        const finished = this._entries.filter(entry => entry.info.state !== 'queued' && entry.info.state !== 'running');
+        const excess = finished.length - MAX_FINISHED_JOBS;
+        if (excess > 0) {
+            const removed = new Set(finished.slice(0, excess));
+            this._entries = this._entries.filter(entry => !removed.has(entry));
+        }
+    }
+
+    private _emitChanged() {
+        this.emit('changed', this.getJobs());
+    }
+}
@@ -0,0 +1,100 @@
+export type LaunchMode = 'editor' | 'game' | 'server' | 'commandlet';
+
+export interface LaunchProfile {
+    name: string;
+    mode: LaunchMode;
+    map?: string;
+    // commandlet 模式下的 -run= 参数，例如 ResavePackages
+    commandlet?: string;
+    extraArgs?: string[];
+    env?: Record<string, string>;
+    // 相对路径基于项目目录，留空时使用项目目录
+    cwd?: string;
+}
+
+export const LAUNCH_MODES: LaunchMode[] = ['editor', 'game', 'server', 'commandlet'];
+
+export function getDefaultLaunchProfile(): LaunchProfile {
+    return { name: '默认', mode: 'editor' };
+}
+
+// 仅对 Editor 目标生效，其他目标的运行方式由目标类型决定
+export function getLaunchModeArgs(profile: LaunchProfile): string[] {
+    switch (profile.mode) {
+        case 'game':
+            return ['-game'];
+        case 'server':
+            return ['-server'];
+        case 'commandlet':
+            return profile.commandlet ? [`-run=${profile.commandlet}`] : [];
+        default:
+            return [];
+    }
+}
+
+// 按空白拆分命令行，引号内的空白保留，例如 -ExecCmds="stat fps"
+export function splitCommandLine(commandLine: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quoted = false;
+    let hasToken = false;
+
+    for (const char of commandLine) {
+        if (char === '"') {
+            quoted = !quoted;
+            current += char;
+            hasToken = true;
+        } else if (/\s/.test(char) && !quoted) {
+            if (hasToken) {
+                args.push(current);
+                current = '';
+                hasToken = false;
+            }
+        } else {
+            current += char;
+            hasToken = true;
+        }
+    }
+
+    if (hasToken) {
+        args.push(current);
+    }
+    return args;
+}
+
+// 每行一个 KEY=VALUE，忽略空行和 # 注释
+export function parseEnvironment(text: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+        const index = trimmed.indexOf('=');
+        if (index > 0) {
+            env[trimmed.slice(0, index).trim()] = trimmed.slice(index + 1).trim();
+        }
+    }
+    return env;
+}
+
+// 面板中以文本形式编辑的参数和环境变量
+export interface LaunchProfileInput {
+    mode?: LaunchMode;
+    map?: string;
+    commandlet?: string;
+    extraArgs?: string;
+    env?: string;
+    cwd?: string;
+}
+
+export function parseLaunchProfileInput(input: LaunchProfileInput): Omit<LaunchProfile, 'name'> {
+    return {
+        mode: input.mode && LAUNCH_MODES.includes(input.mode) ? input.mode : 'editor',
+        map: input.map?.trim() || undefined,
+        commandlet: input.commandlet?.trim() || undefined,
+        extraArgs: splitCommandLine(input.extraArgs || ''),
+        env: parseEnvironment(input.env || ''),
+        cwd: input.cwd?.trim() || undefined
+    };
+}
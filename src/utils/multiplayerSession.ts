@@ -0,0 +1,127 @@
+export type ServerMode = 'dedicated' | 'listen';
+
+export interface MultiplayerOptions {
+    serverMode: ServerMode;
+    clients: number;
+    port: number;
+    map?: string;
+    windowWidth: number;
+    windowHeight: number;
+    // 窗口按列平铺
+    columns: number;
+    debugServer: boolean;
+    // 需要附加调试器的客户端序号，从 1 开始
+    debugClients: number[];
+    serverArgs?: string[];
+    clientArgs?: string[];
+}
+
+export interface SessionProcessSpec {
+    name: string;
+    role: 'server' | 'client';
+    args: string[];
+    debug: boolean;
+}
+
+export const MAX_CLIENTS = 8;
+
+// 日志输出到标准输出，以便在合并的输出面板中显示
+const STDOUT_ARGS = ['-stdout', '-FullStdOutLogOutput'];
+
+export function getDefaultMultiplayerOptions(): MultiplayerOptions {
+    return {
+        serverMode: 'dedicated',
+        clients: 2,
+        port: 7777,
+        windowWidth: 1280,
+        windowHeight: 720,
+        columns: 2,
+        debugServer: false,
+        debugClients: []
+    };
+}
+
+export function validateMultiplayerOptions(options: MultiplayerOptions): { valid: boolean; error?: string } {
+    if (!Number.isInteger(options.clients) || options.clients < 0 || options.clients > MAX_CLIENTS) {
+        return { valid: false, error: `客户端数量必须在 0 到 ${MAX_CLIENTS} 之间` };
+    }
+
+    if (options.serverMode === 'dedicated' && options.clients === 0) {
+        return { valid: false, error: '专用服务器模式至少需要一个客户端' };
+    }
+
+    if (!Number.isInteger(options.port) || options.port <= 0 || options.port + options.clients > 65535) {
+        return { valid: false, error: `无效的端口: ${options.port}` };
+    }
+
+    if (options.serverMode === 'listen' && !options.map) {
+        return { valid: false, error: '监听服务器模式需要指定地图' };
+    }
+
+    return { valid: true };
+}
+
+export function createSessionProcesses(projectPath: string, options: MultiplayerOptions): SessionProcessSpec[] {
+    const processes: SessionProcessSpec[] = [];
+    let windowSlot = 0;
+
+    const windowArgs = () => {
+        const column = windowSlot % Math.max(1, options.columns);
+        const row = Math.floor(windowSlot / Math.max(1, options.columns));
+        windowSlot++;
+        return [
+            '-windowed',
+            `ResX=${options.windowWidth}`,
+            `ResY=${options.windowHeight}`,
+            `WinX=${column * options.windowWidth}`,
+            `WinY=${row * options.windowHeight}`
+        ];
+    };
+
+    if (options.serverMode === 'dedicated') {
+        processes.push({
+            name: 'Server',
+            role: 'server',
+            args: [projectPath, ...(options.map ? [options.map] : []), '-server', `-port=${options.port}`, ...STDOUT_ARGS, ...(options.serverArgs || [])],
+            debug: options.debugServer
+        });
+    } else {
+        // 监听服务器本身也是一个玩家窗口
+        processes.push({
+            name: 'Server',
+            role: 'server',
+            args: [projectPath, `${options.map}?listen`, '-game', `-port=${options.port}`, ...windowArgs(), ...STDOUT_ARGS, ...(options.serverArgs || [])],
+            debug: options.debugServer
+        });
+    }
+
+    for (let index = 1; index <= options.clients; index++) {
+        processes.push({
+            name: `Client ${index}`,
+            role: 'client',
+            // 每个客户端使用不同的本地端口，避免同一台机器上的多个实例冲突
+            args: [projectPath, `127.0.0.1:${options.port}`, '-game', `-port=${options.port + index}`, ...windowArgs(), ...STDOUT_ARGS, ...(options.clientArgs || [])],
+            debug: options.debugClients.includes(index)
+        });
+    }
+
+    return processes;
+}
+
+// 为每一行输出加上进程名前缀，输出块可能在行中间断开
+export function createLinePrefixer(prefix: string, write: (line: string) => void): { feed(text: string): void; flush(): void } {
+    let buffer = '';
+    return {
+        feed(text: string) {
+            const lines = (buffer + text).split(/\r?\n/);
+            buffer = lines.pop() || '';
+            lines.forEach(line => write(`[${prefix}] ${line}`));
+        },
+        flush() {
+            if (buffer) {
+                write(`[${prefix}] ${buffer}`);
+                buffer = '';
+            }
+        }
+    };
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getHostPlatform } from './hostPlatform';
+
+export type PluginSource = 'project' | 'engine';
+
+export interface PluginModule {
+    name: string;
+    type?: string;
+    loadingPhase?: string;
+}
+
+export interface PluginDependency {
+    name: string;
+    enabled: boolean;
+    optional: boolean;
+}
+
+export interface PluginInfo {
+    name: string;
+    friendlyName: string;
+    versionName?: string;
+    description?: string;
+    category?: string;
+    createdBy?: string;
+    // .uplugin 中的 EnabledByDefault，未设置时项目插件默认启用、引擎插件默认不启用
+    enabledByDefault?: boolean;
+    file: string;
+    source: PluginSource;
+    modules: PluginModule[];
+    dependencies: PluginDependency[];
+}
+
+// .uproject 中 Plugins 数组的一项
+export interface ProjectPluginReference {
+    name: string;
+    enabled: boolean;
+    optional: boolean;
+}
+
+export interface PluginState {
+    enabled: boolean;
+    // 未在 .uproject 中启用，但被其他已启用的插件依赖
+    enabledBy?: string;
+}
+
+export interface MissingPluginDependency {
+    // 依赖方为 undefined 时表示 .uproject 中启用的插件不存在
+    plugin?: string;
+    dependency: string;
+}
+
+// 插件目录中不会包含其他插件描述文件的子目录
+const PLUGIN_SEARCH_IGNORED_DIRS = ['Source', 'Content', 'Resources', 'Config', 'Shaders', 'Binaries', 'Intermediate', 'Saved'];
+
+export function parsePluginDescriptor(content: string, file: string, source: PluginSource): PluginInfo {
+    const descriptor = JSON.parse(content.replace(/^\uFEFF/, ''));
+    const name = path.basename(file, '.uplugin');
+    return {
+        name,
+        friendlyName: descriptor.FriendlyName || name,
+        versionName: descriptor.VersionName || (descriptor.Version !== undefined ? String(descriptor.Version) : undefined),
+        description: descriptor.Description || undefined,
+        category: descriptor.Category || undefined,
+        createdBy: descriptor.CreatedBy || undefined,
+        enabledByDefault: typeof descriptor.EnabledByDefault === 'boolean' ? descriptor.EnabledByDefault : undefined,
+        file,
+        source,
+        modules: (Array.isArray(descriptor.Modules) ? descriptor.Modules : [])
+            .filter((module: any) => module && module.Name)
+            .map((module: any) => ({ name: module.Name, type: module.Type, loadingPhase: module.LoadingPhase })),
+        dependencies: (Array.isArray(descriptor.Plugins) ? descriptor.Plugins : [])
+            .filter((dependency: any) => dependency && dependency.Name)
+            .map((dependency: any) => ({ name: dependency.Name, enabled: dependency.Enabled !== false, optional: !!dependency.Optional }))
+    };
+}
+
+export async function discoverPlugins(root: string, source: PluginSource): Promise<PluginInfo[]> {
+    const files = await getHostPlatform().findFiles(root, '.uplugin', { maxDepth: 6, ignoreDirs: PLUGIN_SEARCH_IGNORED_DIRS });
+    const plugins: PluginInfo[] = [];
+    for (const file of files) {
+        try {
+            plugins.push(parsePluginDescriptor(await fs.promises.readFile(file, 'utf8'), file, source));
+        } catch (error) {
+            console.error('[Plugins] Error reading plugin descriptor:', file, error);
+        }
+    }
+    return plugins.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function readProjectPluginReferences(projectPath: string): ProjectPluginReference[] {
+    try {
+        const project = JSON.parse(fs.readFileSync(projectPath, 'utf8').replace(/^\uFEFF/, ''));
+        return (Array.isArray(project.Plugins) ? project.Plugins : [])
+            .filter((reference: any) => reference && reference.Name)
+            .map((reference: any) => ({ name: reference.Name, enabled: !!reference.Enabled, optional: !!reference.Optional }));
+    } catch (error) {
+        console.error('[Plugins] Error reading project plugins:', projectPath, error);
+        return [];
+    }
+}
+
+// 先按 .uproject 和 EnabledByDefault 确定启用的插件，再加入它们依赖的插件
+export function resolvePluginStates(plugins: PluginInfo[], references: ProjectPluginReference[]): Map<string, PluginState> {
+    const byName = new Map(plugins.map(plugin => [plugin.name.toLowerCase(), plugin]));
+    const states = new Map<string, PluginState>();
+    const pending: PluginInfo[] = [];
+
+    for (const plugin of plugins) {
+        const reference = references.find(candidate => candidate.name.toLowerCase() === plugin.name.toLowerCase());
+        const enabled = reference ? reference.enabled : plugin.enabledByDefault ?? plugin.source === 'project';
+        states.set(plugin.name, { enabled });
+        if (enabled) {
+            pending.push(plugin);
+        }
+    }
+
+    while (pending.length > 0) {
+        const plugin = pending.shift()!;
+        for (const dependency of plugin.dependencies) {
+            const target = byName.get(dependency.name.toLowerCase());
+            const state = target && states.get(target.name);
+            if (dependency.enabled && !dependency.optional && target && state && !state.enabled) {
+                states.set(target.name, { enabled: true, enabledBy: plugin.name });
+                pending.push(target);
+            }
+        }
+    }
+    return states;
+}
+
+export function findMissingDependencies(plugins: PluginInfo[], references: ProjectPluginReference[], states: Map<string, PluginState>): MissingPluginDependency[] {
+    const names = new Set(plugins.map(plugin => plugin.name.toLowerCase()));
+    const missing: MissingPluginDependency[] = references
+        .filter(reference => reference.enabled && !reference.optional && !names.has(reference.name.toLowerCase()))
+        .map(reference => ({ dependency: reference.name }));
+
+    for (const plugin of plugins) {
+        if (!states.get(plugin.name)?.enabled) {
+            continue;
+        }
+        plugin.dependencies
+            .filter(dependency => dependency.enabled && !dependency.optional && !names.has(dependency.name.toLowerCase()))
+            .forEach(dependency => missing.push({ plugin: plugin.name, dependency: dependency.name }));
+    }
+    return missing;
+}
+
+// 修改 .uproject 的 Plugins 数组，保留原文件的缩进和换行符
+export function setProjectPluginEnabled(content: string, name: string, enabled: boolean): string {
+    const project = JSON.parse(content.replace(/^\uFEFF/, ''));
+    const plugins: any[] = Array.isArray(project.Plugins) ? project.Plugins : [];
+    const reference = plugins.find(candidate => typeof candidate?.Name === 'string' && candidate.Name.toLowerCase() === name.toLowerCase());
+    if (reference) {
+        reference.Enabled = enabled;
+    } else {
+        plugins.push({ Name: name, Enabled: enabled });
+    }
+    project.Plugins = plugins;
+
+    const indent = content.match(/^[ \t]+(?=")/m)?.[0] || '\t';
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    return JSON.stringify(project, null, indent).replace(/\n/g, eol) + (/\r?\n$/.test(content) ? eol : '');
+}
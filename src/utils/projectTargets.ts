@@ -0,0 +1,83 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type TargetType = 'Game' | 'Editor' | 'Client' | 'Server' | 'Program';
+
+export interface ProjectTarget {
+    name: string;
+    type: TargetType;
+    file?: string;
+}
+
+const TARGET_TYPES: TargetType[] = ['Game', 'Editor', 'Client', 'Server', 'Program'];
+
+const TARGET_TYPE_PATTERN = /\bType\s*=\s*TargetType\s*\.\s*(\w+)/;
+
+export function parseTargetType(content: string): TargetType | undefined {
+    // 忽略注释中的 Type = TargetType.X
+    const stripped = content
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\/\/.*$/gm, '');
+    const match = stripped.match(TARGET_TYPE_PATTERN);
+    if (match && (TARGET_TYPES as string[]).includes(match[1])) {
+        return match[1] as TargetType;
+    }
+    return undefined;
+}
+
+export async function discoverTargets(projectDir: string): Promise<ProjectTarget[]> {
+    const sourceDir = path.join(projectDir, 'Source');
+    let entries: string[];
+    try {
+        entries = await fs.promises.readdir(sourceDir);
+    } catch {
+        return [];
+    }
+
+    const targets: ProjectTarget[] = [];
+    for (const entry of entries) {
+        if (!entry.endsWith('.Target.cs')) {
+            continue;
+        }
+
+        const file = path.join(sourceDir, entry);
+        try {
+            const content = await fs.promises.readFile(file, 'utf8');
+            targets.push({
+                name: entry.slice(0, -'.Target.cs'.length),
+                type: parseTargetType(content) || 'Game',
+                file
+            });
+        } catch (error) {
+            console.error('[ProjectTargets] Error reading target file:', file, error);
+        }
+    }
+
+    return targets.sort((a, b) => TARGET_TYPES.indexOf(a.type) - TARGET_TYPES.indexOf(b.type) || a.name.localeCompare(b.name));
+}
+
+export function getDefaultTarget(projectName: string): ProjectTarget {
+    return { name: `${projectName}Editor`, type: 'Editor' };
+}
+
+export function getTargetExecutablePath(projectDir: string, target: ProjectTarget, platform: string, configuration: string): string {
+    const suffix = configuration === 'Development' ? '' : `-${platform}-${configuration}`;
+    const extension = platform === 'Win64' ? '.exe' : '';
+    return path.join(projectDir, 'Binaries', platform, `${target.name}${suffix}${extension}`);
+}
+
+export function getEditorExecutablePath(uePath: string, platform: string, configuration: string, commandlet: boolean): string {
+    const extension = path.extname(uePath);
+    const directory = path.dirname(uePath);
+    // Debug Editor 编译出的是单独的 UnrealEditor-<平台>-Debug 可执行文件
+    const baseName = path.basename(uePath, extension) + (configuration === 'Debug' ? `-${platform}-Debug` : '');
+
+    // Windows 上 commandlet 使用控制台版本 UnrealEditor-Cmd
+    if (commandlet) {
+        const cmdPath = path.join(directory, `${baseName}-Cmd${extension}`);
+        if (fs.existsSync(cmdPath)) {
+            return cmdPath;
+        }
+    }
+    return path.join(directory, `${baseName}${extension}`);
+}
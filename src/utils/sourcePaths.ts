@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// 日志和崩溃报告中的源码路径可能是相对路径，或是构建机上的绝对路径
+// 依次尝试原路径、项目目录、引擎源码目录，以及按 Source / Plugins 目录重新定位到本地项目
+export function resolveSourcePath(file: string, projectDir: string, engineRoot?: string): string | undefined {
+    const normalized = file.replace(/\\/g, '/');
+    const candidates: string[] = [];
+
+    if (path.isAbsolute(file) || path.win32.isAbsolute(file)) {
+        candidates.push(file);
+    } else {
+        candidates.push(path.resolve(projectDir, normalized));
+        if (engineRoot) {
+            candidates.push(path.resolve(engineRoot, 'Engine', 'Source', normalized));
+        }
+    }
+
+    const relocated = normalized.match(/\/((?:Source|Plugins)\/.+)$/);
+    if (relocated) {
+        candidates.push(path.join(projectDir, relocated[1]));
+    }
+    const engineRelative = normalized.match(/\/(Engine\/(?:Source|Plugins)\/.+)$/);
+    if (engineRelative && engineRoot) {
+        candidates.push(path.join(engineRoot, engineRelative[1]));
+    }
+
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
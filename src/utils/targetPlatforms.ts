@@ -0,0 +1,72 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { HostPlatformName } from './hostPlatform';
+
+export interface TargetPlatformInfo {
+    name: string;
+    architecture?: string;
+    hosts: HostPlatformName[];
+}
+
+export const TARGET_PLATFORMS: TargetPlatformInfo[] = [
+    { name: 'Win64', architecture: 'x64', hosts: ['Win64'] },
+    { name: 'Linux', architecture: 'x86_64-unknown-linux-gnu', hosts: ['Win64', 'Linux'] },
+    { name: 'LinuxArm64', architecture: 'aarch64-unknown-linux-gnueabi', hosts: ['Win64', 'Linux'] },
+    { name: 'Mac', hosts: ['Mac'] }
+];
+
+export function getTargetPlatformInfo(name: string): TargetPlatformInfo | undefined {
+    return TARGET_PLATFORMS.find(platform => platform.name === name);
+}
+
+export function getPlatformArgs(name: string): string[] {
+    const info = getTargetPlatformInfo(name);
+    return info?.architecture ? [name, `-architecture=${info.architecture}`] : [name];
+}
+
+export function isNativePlatform(name: string, host: HostPlatformName): boolean {
+    return name === host;
+}
+
+// UE 引擎自带的 Linux 交叉编译工具链目录（源码版引擎执行 Setup 后存在）
+function getBundledLinuxToolchain(engineRoot: string): string {
+    return path.join(engineRoot, 'Engine', 'Extras', 'ThirdPartyNotUE', 'SDKs', 'HostLinux', 'Linux_x64');
+}
+
+export function validateTargetPlatform(
+    name: string,
+    host: HostPlatformName,
+    engineRoot: string,
+    env: NodeJS.ProcessEnv = process.env
+): { valid: boolean; error?: string } {
+    const info = getTargetPlatformInfo(name);
+    if (!info) {
+        return { valid: false, error: `不支持的目标平台: ${name}` };
+    }
+
+    if (!info.hosts.includes(host)) {
+        return { valid: false, error: `无法在 ${host} 主机上编译 ${name} 平台` };
+    }
+
+    if (isNativePlatform(name, host) || !info.architecture) {
+        return { valid: true };
+    }
+
+    // Linux / LinuxArm64 交叉编译需要 clang 工具链
+    const toolchainRoot = env.LINUX_MULTIARCH_ROOT;
+    if (toolchainRoot) {
+        if (!fs.existsSync(toolchainRoot)) {
+            return { valid: false, error: `LINUX_MULTIARCH_ROOT 指向的目录不存在: ${toolchainRoot}` };
+        }
+        if (!fs.existsSync(path.join(toolchainRoot, info.architecture))) {
+            return { valid: false, error: `交叉编译工具链缺少 ${info.architecture}: ${toolchainRoot}` };
+        }
+        return { valid: true };
+    }
+
+    if (host === 'Linux' && fs.existsSync(getBundledLinuxToolchain(engineRoot))) {
+        return { valid: true };
+    }
+
+    return { valid: false, error: `未设置 LINUX_MULTIARCH_ROOT，无法交叉编译 ${name} 平台` };
+}
@@ -0,0 +1,50 @@
+import { getPlatformArgs } from './targetPlatforms';
+
+export type UBTAction = 'build' | 'rebuild' | 'clean' | 'generate' | 'clangDatabase';
+
+export type UECommandAction = UBTAction | 'cook';
+
+export interface UECommandOptions {
+    target: string;
+    platform: string;
+    configuration: string;
+    projectPath: string;
+    extraArgs?: string[];
+}
+
+const UBT_ACTION_ARGS: Record<UBTAction, string[]> = {
+    build: [],
+    rebuild: ['-Rebuild'],
+    clean: ['-Clean'],
+    generate: ['-GenerateProjectFiles'],
+    clangDatabase: ['-Mode=GenerateClangDatabase']
+};
+
+export function getUBTArgs(action: UBTAction, options: UECommandOptions): string[] {
+    return [
+        options.target,
+        ...getPlatformArgs(options.platform),
+        options.configuration,
+        `-Project=${options.projectPath}`,
+        '-WaitMutex',
+        '-FromMsBuild',
+        ...UBT_ACTION_ARGS[action],
+        ...(options.extraArgs || [])
+    ];
+}
+
+// 只烘焙内容，不编译也不暂存
+export function getCookArgs(options: UECommandOptions): string[] {
+    return [
+        'BuildCookRun',
+        `-project=${options.projectPath}`,
+        '-noP4',
+        '-utf8output',
+        '-unattended',
+        `-platform=${options.platform}`,
+        `-clientconfig=${options.configuration}`,
+        '-cook',
+        '-skipstage',
+        ...(options.extraArgs || [])
+    ];
+}
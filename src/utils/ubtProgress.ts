@@ -0,0 +1,135 @@
+export type UBTPhase = 'starting' | 'uht' | 'compile' | 'link' | 'done';
+
+export interface UBTProgress {
+    phase: UBTPhase;
+    // 0-100
+    progress: number;
+    completed: number;
+    total: number;
+    currentFile?: string;
+}
+
+// 各阶段在总进度中所占的区间，动作执行（编译和链接）占大部分
+const PHASE_RANGES: Record<UBTPhase, [number, number]> = {
+    starting: [0, 5],
+    uht: [5, 15],
+    compile: [15, 100],
+    link: [15, 100],
+    done: [100, 100]
+};
+
+const PHASE_LABELS: Record<UBTPhase, string> = {
+    starting: '正在准备',
+    uht: '正在生成反射代码',
+    compile: '正在编译',
+    link: '正在链接',
+    done: '已完成'
+};
+
+// [12/340] Compile [x64] Module.Foo.cpp / [340/340] Link UnrealEditor-Foo.dll
+const ACTION_PATTERN = /^\s*\[(\d+)\/(\d+)\]\s+(\S+)\s+(?:\[[^\]]*\]\s+)?(.+?)\s*$/;
+const BUILDING_PATTERN = /Building (\d+) actions?/i;
+const UHT_PATTERN = /Running (?:Internal )?UnrealHeaderTool|Parsing headers for|UnrealHeaderTool\.exe/i;
+const DONE_PATTERN = /Target is up to date|Total execution time|Total time in .+ executor/i;
+// 生成项目文件等模式没有动作计数，只输出百分比
+const PERCENT_PATTERN = /(\d{1,3})%\s*$/;
+
+export function getUBTPhaseLabel(phase: UBTPhase): string {
+    return PHASE_LABELS[phase];
+}
+
+// 按行解析 UBT 输出；输出块可能在任意位置断开，未结束的行会保留到下一次 feed
+export class UBTProgressParser {
+    private _buffer: string = '';
+    private _progress: UBTProgress = { phase: 'starting', progress: 0, completed: 0, total: 0 };
+
+    public getProgress(): UBTProgress {
+        return { ...this._progress };
+    }
+
+    public feed(text: string): UBTProgress | undefined {
+        const lines = (this._buffer + text).split(/\r?\n|\r/);
+        this._buffer = lines.pop() || '';
+        return this._parseLines(lines);
+    }
+
+    public flush(): UBTProgress | undefined {
+        const line = this._buffer;
+        this._buffer = '';
+        return line ? this._parseLines([line]) : undefined;
+    }
+
+    // 返回值仅在进度发生变化时非空
+    private _parseLines(lines: string[]): UBTProgress | undefined {
+        let changed = false;
+        for (const line of lines) {
+            if (this._parseLine(line)) {
+                changed = true;
+            }
+        }
+        return changed ? this.getProgress() : undefined;
+    }
+
+    private _parseLine(line: string): boolean {
+        const action = line.match(ACTION_PATTERN);
+        if (action) {
+            const completed = parseInt(action[1], 10);
+            const total = parseInt(action[2], 10);
+            const verb = action[3];
+            if (total !== this._progress.total) {
+                // 新一批动作（例如 UHT 之后的第二次执行）
+                this._progress.completed = 0;
+                this._progress.total = total;
+            }
+            this._progress.completed = Math.max(this._progress.completed, completed);
+            this._progress.phase = /^(Link|Lib)/i.test(verb) ? 'link' : 'compile';
+            this._progress.currentFile = action[4];
+            this._progress.progress = this._getActionProgress();
+            return true;
+        }
+
+        const building = line.match(BUILDING_PATTERN);
+        if (building) {
+            this._progress.total = parseInt(building[1], 10);
+            this._progress.completed = 0;
+            this._progress.phase = 'compile';
+            this._progress.currentFile = undefined;
+            this._progress.progress = this._getActionProgress();
+            return true;
+        }
+
+        if (DONE_PATTERN.test(line)) {
+            this._progress.phase = 'done';
+            this._progress.progress = 100;
+            this._progress.currentFile = undefined;
+            return true;
+        }
+
+        if (UHT_PATTERN.test(line) && this._progress.phase === 'starting') {
+            this._progress.phase = 'uht';
+            this._progress.progress = PHASE_RANGES.uht[0];
+            return true;
+        }
+
+        const percent = line.match(PERCENT_PATTERN);
+        if (percent && this._progress.total === 0) {
+            const progress = Math.min(100, parseInt(percent[1], 10));
+            if (progress > this._progress.progress) {
+                this._progress.progress = progress;
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private _getActionProgress(): number {
+        const [start, end] = PHASE_RANGES[this._progress.phase];
+        if (this._progress.total === 0) {
+            return start;
+        }
+        // 仍然保证进度不回退
+        const progress = start + (end - start) * this._progress.completed / this._progress.total;
+        return Math.max(this._progress.progress, Math.min(end, progress));
+    }
+}
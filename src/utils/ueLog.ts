@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+
+export type LogVerbosity = 'Fatal' | 'Error' | 'Warning' | 'Display' | 'Log' | 'Verbose' | 'VeryVerbose';
+
+// 按严重程度从高到低排列，用于按最低级别过滤
+export const LOG_VERBOSITIES: LogVerbosity[] = ['Fatal', 'Error', 'Warning', 'Display', 'Log', 'Verbose', 'VeryVerbose'];
+
+export interface SourceReference {
+    file: string;
+    line: number;
+    // 引用在消息中的位置
+    start: number;
+    end: number;
+}
+
+export interface UELogEntry {
+    timestamp?: string;
+    frame?: number;
+    category?: string;
+    verbosity: LogVerbosity;
+    message: string;
+    // 调用堆栈等没有前缀的行，沿用上一行的分类和级别
+    continuation: boolean;
+    references: SourceReference[];
+}
+
+// [2024.01.01-12.00.00:000][  0]LogTemp: Warning: message
+const PREFIX_PATTERN = /^\[(\d{4}\.\d{2}\.\d{2}-\d{2}\.\d{2}\.\d{2}:\d{3})\]\[\s*(\d+)\]/;
+const CATEGORY_PATTERN = /^([A-Za-z]\w*): (.*)$/;
+const VERBOSITY_PATTERN = /^(Fatal|Error|Warning|Display|Log|Verbose|VeryVerbose): (.*)$/;
+// D:\Game\Source\Foo.cpp(12) / /home/dev/Game/Source/Foo.cpp(12,5) / Source/Foo.h(10)
+const REFERENCE_PATTERN = /((?:[A-Za-z]:[\\/]|\/|\.{1,2}[\\/])?(?:[^\s()\[\]'"<>|:*?]+[\\/])*[^\s()\[\]'"<>|:*?\\/]+\.\w+)\((\d+)(?:,\d+)?\)/g;
+
+export function findSourceReferences(message: string): SourceReference[] {
+    const references: SourceReference[] = [];
+    for (const match of message.matchAll(REFERENCE_PATTERN)) {
+        const start = match.index || 0;
+        references.push({
+            file: match[1],
+            line: parseInt(match[2], 10),
+            start,
+            end: start + match[0].length
+        });
+    }
+    return references;
+}
+
+export function parseUELogLine(line: string, previous?: UELogEntry): UELogEntry {
+    let text = line.replace(/\r$/, '').replace(/^\uFEFF/, '');
+    let timestamp: string | undefined;
+    let frame: number | undefined;
+
+    const prefix = text.match(PREFIX_PATTERN);
+    if (prefix) {
+        timestamp = prefix[1];
+        frame = parseInt(prefix[2], 10);
+        text = text.slice(prefix[0].length);
+    }
+
+    const category = text.match(CATEGORY_PATTERN);
+    // 没有分类的 "Error: ..." 不把级别当作分类，在下面单独处理
+    if (category && !LOG_VERBOSITIES.includes(category[1] as LogVerbosity)) {
+        const verbosity = category[2].match(VERBOSITY_PATTERN);
+        const message = verbosity ? verbosity[2] : category[2];
+        return {
+            timestamp,
+            frame,
+            category: category[1],
+            verbosity: verbosity ? verbosity[1] as LogVerbosity : 'Log',
+            message,
+            continuation: false,
+            references: findSourceReferences(message)
+        };
+    }
+
+    const verbosity = text.match(VERBOSITY_PATTERN);
+    if (verbosity) {
+        return {
+            timestamp,
+            frame,
+            verbosity: verbosity[1] as LogVerbosity,
+            message: verbosity[2],
+            continuation: false,
+            references: findSourceReferences(verbosity[2])
+        };
+    }
+
+    return {
+        timestamp,
+        frame,
+        category: prefix ? undefined : previous?.category,
+        verbosity: prefix || !previous ? 'Log' : previous.verbosity,
+        message: text,
+        continuation: !prefix && !!previous,
+        references: findSourceReferences(text)
+    };
+}
+
+export class UELogParser {
+    private _pending: string = '';
+    private _previous?: UELogEntry;
+
+    public reset() {
+        this._pending = '';
+        this._previous = undefined;
+    }
+
+    public feed(chunk: string): UELogEntry[] {
+        const lines = (this._pending + chunk).split('\n');
+        this._pending = lines.pop() || '';
+        return this._parseLines(lines);
+    }
+
+    public flush(): UELogEntry[] {
+        const lines = this._pending ? [this._pending] : [];
+        this._pending = '';
+        return this._parseLines(lines);
+    }
+
+    private _parseLines(lines: string[]): UELogEntry[] {
+        const entries: UELogEntry[] = [];
+        for (const line of lines) {
+            if (!line.replace(/\r$/, '')) {
+                continue;
+            }
+            const entry = parseUELogLine(line, this._previous);
+            this._previous = entry;
+            entries.push(entry);
+        }
+        return entries;
+    }
+}
+
+export interface LogFileInfo {
+    name: string;
+    path: string;
+    modified: number;
+}
+
+// 启动新会话时 UE 会把旧日志重命名为 <Project>-backup-<时间>.log，这些文件默认不列出
+export function listLogFiles(logDir: string, includeBackups: boolean = false): LogFileInfo[] {
+    if (!fs.existsSync(logDir)) {
+        return [];
+    }
+
+    return fs.readdirSync(logDir)
+        .filter(name => name.toLowerCase().endsWith('.log') && (includeBackups || !name.includes('-backup-')))
+        .map(name => {
+            const file = path.join(logDir, name);
+            return { name, path: file, modified: fs.statSync(file).mtimeMs };
+        })
+        .sort((a, b) => b.modified - a.modified);
+}
+
+// 通过轮询跟踪日志文件，UE 写日志时不一定会触发文件系统事件
+// 事件: 'data' (text), 'rotated' (), 'error' (error)
+// 每次最多读取的字节数，日志一次写入大量内容时分块读取
+const TAIL_CHUNK_SIZE = 1024 * 1024;
+
+export class LogFileTailer extends EventEmitter {
+    private _offset: number = 0;
+    private _inode?: number;
+    private _timer?: NodeJS.Timeout;
+    private _reading: boolean = false;
+    // 停止后正在进行的读取不再触发事件，监听器可能已被移除
+    private _stopped: boolean = true;
+    private _decoder = new StringDecoder('utf8');
+    // 从文件中间开始读取时，丢弃第一行不完整的内容
+    private _skipPartialLine: boolean = false;
+
+    constructor(public readonly file: string, private readonly _interval: number = 500) {
+        super();
+    }
+
+    // 首次读取时只加载末尾 initialBytes 字节，避免大日志一次性全部加载
+    public start(initialBytes: number) {
+        this.stop();
+        this._stopped = false;
+        try {
+            const stat = fs.statSync(this.file);
+            this._inode = stat.ino;
+            this._offset = Math.max(0, stat.size - initialBytes);
+            this._skipPartialLine = this._offset > 0;
+        } catch {
+            // 文件尚未创建，等待进程启动后写入
+            this._inode = undefined;
+            this._offset = 0;
+        }
+        this._timer = setInterval(() => this._poll(), this._interval);
+        this._poll();
+    }
+
+    public stop() {
+        this._stopped = true;
+        if (this._timer) {
+            clearInterval(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    private async _poll() {
+        if (this._reading) {
+            return;
+        }
+        this._reading = true;
+        try {
+            let stat: fs.Stats;
+            try {
+                stat = await fs.promises.stat(this.file);
+            } catch {
+                return;
+            }
+            if (this._stopped) {
+                return;
+            }
+
+            // 文件被替换或截断，说明开始了新的会话
+            if ((this._inode !== undefined && stat.ino !== this._inode) || stat.size < this._offset) {
+                this._offset = 0;
+                this._decoder = new StringDecoder('utf8');
+                this._skipPartialLine = false;
+                this.emit('rotated');
+            }
+            this._inode = stat.ino;
+
+            if (stat.size > this._offset) {
+                const handle = await fs.promises.open(this.file, 'r');
+                try {
+                    const buffer = Buffer.alloc(Math.min(stat.size - this._offset, TAIL_CHUNK_SIZE));
+                    while (this._offset < stat.size && !this._stopped) {
+                        const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, stat.size - this._offset), this._offset);
+                        if (bytesRead === 0 || this._stopped) {
+                            break;
+                        }
+                        this._offset += bytesRead;
+                        let text = this._decoder.write(buffer.subarray(0, bytesRead));
+                        if (this._skipPartialLine) {
+                            const newline = text.indexOf('\n');
+                            if (newline < 0) {
+                                continue;
+                            }
+                            text = text.slice(newline + 1);
+                            this._skipPartialLine = false;
+                        }
+                        if (text) {
+                            this.emit('data', text);
+                        }
+                    }
+                } finally {
+                    await handle.close();
+                }
+            }
+        } catch (error: any) {
+            if (!this._stopped) {
+                this.emit('error', error);
+            }
+        } finally {
+            this._reading = false;
+        }
+    }
+}